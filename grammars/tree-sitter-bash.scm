@@ -0,0 +1,40 @@
+; Function detection and metrics for Bash (captures are described in the README)
+
+(function_definition
+  name: (word) @name
+  body: (_) @body) @function
+
+; Metrics
+
+[
+  (if_statement)
+  (elif_clause)
+  (while_statement)
+  (for_statement)
+  (c_style_for_statement)
+  (ternary_expression)
+] @branch
+
+((case_item
+  value: (_) @pattern) @branch
+  (#not-eq? @pattern "*"))
+
+(list
+  ["&&" "||"] @branch)
+
+[
+  (if_statement)
+  (case_statement)
+] @nesting
+
+[
+  (while_statement body: (_) @nesting)
+  (for_statement body: (_) @nesting)
+  (c_style_for_statement body: (_) @nesting)
+]
+
+((command
+  name: (command_name) @command) @return
+  (#eq? @command "return"))
+
+(comment) @comment
@@ -0,0 +1,59 @@
+; Function detection and metrics for C (captures are described in the README)
+
+(function_definition
+  declarator: (function_declarator
+    declarator: (identifier) @name)
+  body: (_) @body) @function
+
+(function_definition
+  declarator: (pointer_declarator
+    declarator: (function_declarator
+      declarator: (identifier) @name))
+  body: (_) @body) @function
+
+(function_definition
+  declarator: (pointer_declarator
+    declarator: (pointer_declarator
+      declarator: (function_declarator
+        declarator: (identifier) @name)))
+  body: (_) @body) @function
+
+(struct_specifier
+  name: (_) @name
+  body: (_)) @container
+
+; Metrics
+
+(function_declarator
+  parameters: (parameter_list) @parameters)
+
+[
+  (if_statement)
+  (while_statement)
+  (for_statement)
+  (do_statement)
+  (conditional_expression)
+] @branch
+
+(case_statement
+  value: (_)) @branch
+
+(binary_expression
+  operator: ["&&" "||"]) @branch
+
+(if_statement
+  consequence: (_) @nesting)
+
+(else_clause
+  (compound_statement) @nesting)
+
+[
+  (while_statement body: (_) @nesting)
+  (for_statement body: (_) @nesting)
+  (do_statement body: (_) @nesting)
+  (switch_statement body: (_) @nesting)
+]
+
+(return_statement) @return
+
+(comment) @comment
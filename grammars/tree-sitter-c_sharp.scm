@@ -0,0 +1,65 @@
+; Function detection and metrics for C# (captures are described in the README)
+
+(method_declaration
+  name: (identifier) @name
+  body: (_)? @body) @function
+
+(constructor_declaration
+  name: (identifier) @name
+  body: (_) @body) @function
+
+(local_function_statement
+  name: (identifier) @name
+  body: (_) @body) @function
+
+(class_declaration
+  name: (identifier) @name) @container
+
+(interface_declaration
+  name: (identifier) @name) @container
+
+(struct_declaration
+  name: (identifier) @name) @container
+
+(record_declaration
+  name: (identifier) @name) @container
+
+; Metrics
+
+(_
+  parameters: (parameter_list) @parameters)
+
+[
+  (if_statement)
+  (for_statement)
+  (foreach_statement)
+  (while_statement)
+  (do_statement)
+  (catch_clause)
+  (conditional_expression)
+] @branch
+
+((switch_section) @branch
+  (#match? @branch "^case"))
+
+(switch_expression_arm) @branch
+
+(binary_expression
+  operator: ["&&" "||" "??"]) @branch
+
+[
+  (if_statement consequence: (_) @nesting)
+  (if_statement alternative: (block) @nesting)
+  (for_statement body: (_) @nesting)
+  (foreach_statement body: (_) @nesting)
+  (while_statement body: (_) @nesting)
+  (do_statement body: (_) @nesting)
+  (switch_statement body: (_) @nesting)
+  (try_statement body: (_) @nesting)
+  (catch_clause body: (_) @nesting)
+  (finally_clause (block) @nesting)
+]
+
+(return_statement) @return
+
+(comment) @comment
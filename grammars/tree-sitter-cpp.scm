@@ -0,0 +1,118 @@
+; Function detection and metrics for C++ (captures are described in the README)
+
+; Functions and in-class methods
+(function_definition
+  declarator: [
+    (function_declarator
+      declarator: [(identifier) (field_identifier) (destructor_name) (operator_name)] @name)
+    (pointer_declarator
+      declarator: (function_declarator
+        declarator: [(identifier) (field_identifier) (operator_name)] @name))
+    (reference_declarator
+      (function_declarator
+        declarator: [(identifier) (field_identifier) (operator_name)] @name))
+  ]
+  body: (_) @body) @function
+
+; Out-of-class definitions like Class::method
+(function_definition
+  declarator: [
+    (function_declarator
+      declarator: (qualified_identifier
+        scope: (_) @scope
+        name: [(identifier) (destructor_name) (operator_name)] @name))
+    (pointer_declarator
+      declarator: (function_declarator
+        declarator: (qualified_identifier
+          scope: (_) @scope
+          name: [(identifier) (operator_name)] @name)))
+    (reference_declarator
+      (function_declarator
+        declarator: (qualified_identifier
+          scope: (_) @scope
+          name: [(identifier) (operator_name)] @name)))
+  ]
+  body: (_) @body) @function
+
+; Out-of-class definitions like ns::Class::method
+(function_definition
+  declarator: (function_declarator
+    declarator: (qualified_identifier
+      name: (qualified_identifier
+        scope: (_) @scope
+        name: [(identifier) (destructor_name) (operator_name)] @name)))
+  body: (_) @body) @function
+
+(function_definition
+  declarator: (function_declarator
+    declarator: (qualified_identifier
+      name: (qualified_identifier
+        name: (qualified_identifier
+          scope: (_) @scope
+          name: [(identifier) (destructor_name) (operator_name)] @name))))
+  body: (_) @body) @function
+
+; Lambdas assigned to a variable
+(init_declarator
+  declarator: (identifier) @name
+  value: (lambda_expression
+    body: (_) @body) @function)
+
+(class_specifier
+  name: (_) @name
+  body: (_)) @container
+
+(struct_specifier
+  name: (_) @name
+  body: (_)) @container
+
+(namespace_definition
+  name: (_) @name) @container
+
+; Metrics
+
+(function_declarator
+  parameters: (parameter_list) @parameters)
+
+(lambda_expression
+  declarator: (abstract_function_declarator
+    parameters: (parameter_list) @parameters))
+
+[
+  (if_statement)
+  (while_statement)
+  (for_statement)
+  (for_range_loop)
+  (do_statement)
+  (catch_clause)
+  (conditional_expression)
+] @branch
+
+(case_statement
+  value: (_)) @branch
+
+(binary_expression
+  operator: ["&&" "||" "and" "or"]) @branch
+
+(if_statement
+  consequence: (_) @nesting)
+
+(else_clause
+  (compound_statement) @nesting)
+
+[
+  (while_statement body: (_) @nesting)
+  (for_statement body: (_) @nesting)
+  (for_range_loop body: (_) @nesting)
+  (do_statement body: (_) @nesting)
+  (switch_statement body: (_) @nesting)
+  (try_statement body: (_) @nesting)
+  (catch_clause body: (_) @nesting)
+]
+
+[
+  (return_statement)
+  (co_return_statement)
+] @return
+
+(comment) @comment
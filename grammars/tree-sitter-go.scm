@@ -0,0 +1,57 @@
+; Function detection and metrics for Go (captures are described in the README)
+
+(function_declaration
+  name: (identifier) @name
+  body: (_) @body) @function
+
+; Methods are grouped under their receiver type
+(method_declaration
+  receiver: (parameter_list
+    (parameter_declaration
+      type: [
+        (type_identifier) @scope
+        (pointer_type (type_identifier) @scope)
+      ]))
+  name: (field_identifier) @name
+  body: (_) @body) @function
+
+; Function literals assigned to a variable
+(short_var_declaration
+  left: (expression_list . (identifier) @name)
+  right: (expression_list . (func_literal
+    body: (_) @body) @function))
+
+; Metrics
+
+[
+  (function_declaration parameters: (parameter_list) @parameters)
+  (method_declaration parameters: (parameter_list) @parameters)
+  (func_literal parameters: (parameter_list) @parameters)
+]
+
+[
+  (if_statement)
+  (for_statement)
+  (expression_case)
+  (type_case)
+  (communication_case)
+] @branch
+
+(binary_expression
+  operator: ["&&" "||"]) @branch
+
+[
+  (if_statement consequence: (_) @nesting)
+  (if_statement alternative: (block) @nesting)
+  (for_statement body: (_) @nesting)
+]
+
+[
+  (expression_switch_statement)
+  (type_switch_statement)
+  (select_statement)
+] @nesting
+
+(return_statement) @return
+
+(comment) @comment
@@ -0,0 +1,44 @@
+; Function detection and metrics for Haskell (captures are described in the README)
+; Every equation of a function is listed on its own.
+
+(function
+  name: (variable) @name) @function
+
+(bind
+  name: (variable) @name) @function
+
+(class
+  name: (_) @name) @container
+
+(instance
+  name: (_) @name) @container
+
+; Metrics
+
+(function
+  patterns: (patterns) @parameters)
+
+((guards) @branch
+  (#not-eq? @branch "otherwise"))
+
+((alternative
+  pattern: (_) @pattern) @branch
+  (#not-eq? @pattern "_"))
+
+(conditional) @branch
+
+((infix
+  operator: (operator) @operator) @branch
+  (#any-of? @operator "&&" "||"))
+
+[
+  (conditional)
+  (case)
+  (multi_way_if)
+  (lambda_case)
+] @nesting
+
+[
+  (comment)
+  (haddock)
+] @comment
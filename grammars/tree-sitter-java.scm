@@ -0,0 +1,65 @@
+; Function detection and metrics for Java (captures are described in the README)
+
+(method_declaration
+  name: (identifier) @name
+  body: (_)? @body) @function
+
+(constructor_declaration
+  name: (identifier) @name
+  body: (_) @body) @function
+
+(class_declaration
+  name: (identifier) @name) @container
+
+(interface_declaration
+  name: (identifier) @name) @container
+
+(enum_declaration
+  name: (identifier) @name) @container
+
+(record_declaration
+  name: (identifier) @name) @container
+
+; Metrics
+
+[
+  (method_declaration parameters: (formal_parameters) @parameters)
+  (constructor_declaration parameters: (formal_parameters) @parameters)
+]
+
+[
+  (if_statement)
+  (for_statement)
+  (enhanced_for_statement)
+  (while_statement)
+  (do_statement)
+  (catch_clause)
+  (ternary_expression)
+] @branch
+
+(switch_label
+  (_)) @branch
+
+(binary_expression
+  operator: ["&&" "||"]) @branch
+
+[
+  (if_statement consequence: (_) @nesting)
+  (if_statement alternative: (block) @nesting)
+  (for_statement body: (_) @nesting)
+  (enhanced_for_statement body: (_) @nesting)
+  (while_statement body: (_) @nesting)
+  (do_statement body: (_) @nesting)
+  (switch_expression body: (_) @nesting)
+  (try_statement body: (_) @nesting)
+  (try_with_resources_statement body: (_) @nesting)
+  (catch_clause body: (_) @nesting)
+  (finally_clause (block) @nesting)
+]
+
+(return_statement) @return
+
+[
+  (line_comment)
+  (block_comment)
+] @comment
@@ -0,0 +1,95 @@
+; Function detection and metrics for JavaScript (captures are described in the README)
+
+(function_declaration
+  name: (identifier) @name
+  body: (_) @body) @function
+
+(generator_function_declaration
+  name: (identifier) @name
+  body: (_) @body) @function
+
+(method_definition
+  name: (_) @name
+  body: (_) @body) @function
+
+; Functions assigned to a variable, property or object key
+(variable_declarator
+  name: (identifier) @name
+  value: [
+    (arrow_function body: (_) @body)
+    (function_expression body: (_) @body)
+  ] @function)
+
+(assignment_expression
+  left: [(identifier) (member_expression)] @name
+  right: [
+    (arrow_function body: (_) @body)
+    (function_expression body: (_) @body)
+  ] @function)
+
+(pair
+  key: (_) @name
+  value: [
+    (arrow_function body: (_) @body)
+    (function_expression body: (_) @body)
+  ] @function)
+
+; Callbacks, named after the function they are passed to
+(call_expression
+  function: [
+    (identifier) @name
+    (member_expression property: (property_identifier) @name)
+  ]
+  arguments: (arguments [
+    (arrow_function body: (_) @body)
+    (function_expression body: (_) @body)
+  ] @function))
+
+(class_declaration
+  name: (_) @name) @container
+
+(class
+  name: (_) @name) @container
+
+; Metrics
+
+(_
+  parameters: (formal_parameters) @parameters)
+
+(arrow_function
+  parameter: (identifier) @parameters)
+
+[
+  (if_statement)
+  (for_statement)
+  (for_in_statement)
+  (while_statement)
+  (do_statement)
+  (switch_case)
+  (catch_clause)
+  (ternary_expression)
+] @branch
+
+(binary_expression
+  operator: ["&&" "||" "??"]) @branch
+
+(if_statement
+  consequence: (_) @nesting)
+
+(else_clause
+  (statement_block) @nesting)
+
+[
+  (for_statement body: (_) @nesting)
+  (for_in_statement body: (_) @nesting)
+  (while_statement body: (_) @nesting)
+  (do_statement body: (_) @nesting)
+  (switch_statement body: (_) @nesting)
+  (try_statement body: (_) @nesting)
+  (catch_clause body: (_) @nesting)
+  (finally_clause body: (_) @nesting)
+]
+
+(return_statement) @return
+
+(comment) @comment
@@ -0,0 +1,60 @@
+; Function detection and metrics for Kotlin (captures are described in the README)
+
+(function_declaration
+  name: (identifier) @name
+  (function_body)? @body) @function
+
+(secondary_constructor
+  "constructor" @name
+  (block)? @body) @function
+
+; Lambdas assigned to a property
+(property_declaration
+  (variable_declaration (identifier) @name)
+  (lambda_literal) @function)
+
+(class_declaration
+  name: (identifier) @name) @container
+
+(object_declaration
+  name: (identifier) @name) @container
+
+; Metrics
+
+[
+  (function_declaration (function_value_parameters) @parameters)
+  (secondary_constructor (function_value_parameters) @parameters)
+  (lambda_literal (lambda_parameters) @parameters)
+]
+
+[
+  (if_expression)
+  (for_statement)
+  (while_statement)
+  (do_while_statement)
+  (catch_block)
+] @branch
+
+(when_entry
+  condition: (_)) @branch
+
+(binary_expression
+  operator: ["&&" "||" "?:"]) @branch
+
+[
+  (if_expression (block) @nesting)
+  (for_statement (block) @nesting)
+  (while_statement (block) @nesting)
+  (do_while_statement (block) @nesting)
+  (try_expression (block) @nesting)
+  (catch_block (block) @nesting)
+]
+
+(when_expression) @nesting
+
+(return_expression) @return
+
+[
+  (line_comment)
+  (block_comment)
+] @comment
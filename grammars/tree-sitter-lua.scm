@@ -0,0 +1,55 @@
+; Function detection and metrics for Lua (captures are described in the README)
+
+(function_declaration
+  name: (identifier) @name
+  body: (_)? @body) @function
+
+; Functions stored in a table, like M.setup or M:method
+(function_declaration
+  name: (dot_index_expression
+    table: (_) @scope
+    field: (identifier) @name)
+  body: (_)? @body) @function
+
+(function_declaration
+  name: (method_index_expression
+    table: (_) @scope
+    method: (identifier) @name)
+  body: (_)? @body) @function
+
+; Anonymous functions assigned to a variable
+(assignment_statement
+  (variable_list . name: (_) @name)
+  (expression_list . value: (function_definition
+    body: (_)? @body) @function))
+
+; Metrics
+
+[
+  (function_declaration parameters: (parameters) @parameters)
+  (function_definition parameters: (parameters) @parameters)
+]
+
+[
+  (if_statement)
+  (elseif_statement)
+  (for_statement)
+  (while_statement)
+  (repeat_statement)
+] @branch
+
+(binary_expression
+  operator: ["and" "or"]) @branch
+
+[
+  (if_statement consequence: (_) @nesting)
+  (elseif_statement consequence: (_) @nesting)
+  (else_statement body: (_) @nesting)
+  (for_statement body: (_) @nesting)
+  (while_statement body: (_) @nesting)
+  (repeat_statement body: (_) @nesting)
+]
+
+(return_statement) @return
+
+(comment) @comment
@@ -0,0 +1,66 @@
+; Function detection and metrics for PHP (captures are described in the README)
+
+(function_definition
+  name: (name) @name
+  body: (_) @body) @function
+
+(method_declaration
+  name: (name) @name
+  body: (_)? @body) @function
+
+; Anonymous functions assigned to a variable
+(assignment_expression
+  left: (variable_name) @name
+  right: [
+    (anonymous_function body: (_) @body)
+    (arrow_function body: (_) @body)
+  ] @function)
+
+(class_declaration
+  name: (name) @name) @container
+
+(interface_declaration
+  name: (name) @name) @container
+
+(trait_declaration
+  name: (name) @name) @container
+
+; Metrics
+
+(_
+  parameters: (formal_parameters) @parameters)
+
+[
+  (if_statement)
+  (else_if_clause)
+  (for_statement)
+  (foreach_statement)
+  (while_statement)
+  (do_statement)
+  (case_statement)
+  (match_conditional_expression)
+  (catch_clause)
+  (conditional_expression)
+] @branch
+
+(binary_expression
+  operator: ["&&" "||" "and" "or" "??"]) @branch
+
+[
+  (if_statement body: (_) @nesting)
+  (else_if_clause body: (_) @nesting)
+  (else_clause body: (_) @nesting)
+  (for_statement body: (_) @nesting)
+  (foreach_statement body: (_) @nesting)
+  (while_statement body: (_) @nesting)
+  (do_statement body: (_) @nesting)
+  (switch_statement body: (_) @nesting)
+  (match_expression body: (_) @nesting)
+  (try_statement body: (_) @nesting)
+  (catch_clause body: (_) @nesting)
+  (finally_clause body: (_) @nesting)
+]
+
+(return_statement) @return
+
+(comment) @comment
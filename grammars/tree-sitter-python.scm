@@ -0,0 +1,43 @@
+; Function detection and metrics for Python (captures are described in the README)
+
+(function_definition
+  name: (identifier) @name
+  body: (_) @body) @function
+
+(class_definition
+  name: (identifier) @name) @container
+
+; Metrics
+
+(function_definition
+  parameters: (parameters) @parameters)
+
+[
+  (if_statement)
+  (elif_clause)
+  (for_statement)
+  (while_statement)
+  (except_clause)
+  (case_clause)
+  (conditional_expression)
+  (boolean_operator)
+  (for_in_clause)
+  (if_clause)
+] @branch
+
+[
+  (if_statement consequence: (_) @nesting)
+  (elif_clause consequence: (_) @nesting)
+  (else_clause body: (_) @nesting)
+  (for_statement body: (_) @nesting)
+  (while_statement body: (_) @nesting)
+  (try_statement body: (_) @nesting)
+  (except_clause (block) @nesting)
+  (finally_clause (block) @nesting)
+  (with_statement body: (_) @nesting)
+  (match_statement body: (_) @nesting)
+]
+
+(return_statement) @return
+
+(comment) @comment
@@ -0,0 +1,64 @@
+; Function detection and metrics for Ruby (captures are described in the README)
+
+(method
+  name: (_) @name
+  body: (_)? @body) @function
+
+(singleton_method
+  name: (_) @name
+  body: (_)? @body) @function
+
+(class
+  name: (_) @name) @container
+
+(module
+  name: (_) @name) @container
+
+; Metrics
+
+[
+  (method parameters: (method_parameters) @parameters)
+  (singleton_method parameters: (method_parameters) @parameters)
+]
+
+[
+  (if)
+  (elsif)
+  (unless)
+  (while)
+  (until)
+  (for)
+  (when)
+  (rescue)
+  (conditional)
+  (if_modifier)
+  (unless_modifier)
+  (while_modifier)
+  (until_modifier)
+  (rescue_modifier)
+] @branch
+
+(binary
+  operator: ["&&" "||" "and" "or"]) @branch
+
+[
+  (if consequence: (_) @nesting)
+  (if alternative: (else) @nesting)
+  (elsif consequence: (_) @nesting)
+  (elsif alternative: (else) @nesting)
+  (unless consequence: (_) @nesting)
+  (unless alternative: (else) @nesting)
+  (while body: (_) @nesting)
+  (until body: (_) @nesting)
+  (for body: (_) @nesting)
+  (rescue body: (_) @nesting)
+]
+
+[
+  (case)
+  (begin)
+] @nesting
+
+(return) @return
+
+(comment) @comment
@@ -0,0 +1,58 @@
+; Function detection and metrics for Rust (captures are described in the README)
+
+(function_item
+  name: (identifier) @name
+  body: (_) @body) @function
+
+; Closures assigned to a variable
+(let_declaration
+  pattern: (identifier) @name
+  value: (closure_expression
+    body: (_) @body) @function)
+
+(impl_item
+  type: (_) @name) @container
+
+(trait_item
+  name: (_) @name) @container
+
+(mod_item
+  name: (_) @name
+  body: (_)) @container
+
+; Metrics
+
+[
+  (function_item parameters: (parameters) @parameters)
+  (closure_expression parameters: (closure_parameters) @parameters)
+]
+
+[
+  (if_expression)
+  (for_expression)
+  (while_expression)
+  (loop_expression)
+] @branch
+
+((match_arm
+  pattern: (match_pattern) @arm) @branch
+  (#not-eq? @arm "_"))
+
+(binary_expression
+  operator: ["&&" "||"]) @branch
+
+[
+  (if_expression consequence: (_) @nesting)
+  (else_clause (block) @nesting)
+  (for_expression body: (_) @nesting)
+  (while_expression body: (_) @nesting)
+  (loop_expression body: (_) @nesting)
+  (match_expression body: (_) @nesting)
+]
+
+(return_expression) @return
+
+[
+  (line_comment)
+  (block_comment)
+] @comment
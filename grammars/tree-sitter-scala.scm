@@ -0,0 +1,57 @@
+; Function detection and metrics for Scala (captures are described in the README)
+
+(function_definition
+  name: (identifier) @name
+  body: (_) @body) @function
+
+(function_declaration
+  name: (identifier) @name) @function
+
+(class_definition
+  name: (identifier) @name) @container
+
+(object_definition
+  name: (identifier) @name) @container
+
+(trait_definition
+  name: (identifier) @name) @container
+
+; Metrics
+
+[
+  (function_definition (parameters (parameter) @parameter))
+  (function_declaration (parameters (parameter) @parameter))
+]
+
+[
+  (if_expression)
+  (for_expression)
+  (while_expression)
+  (do_while_expression)
+] @branch
+
+((case_clause
+  pattern: (_) @pattern) @branch
+  (#not-eq? @pattern "_"))
+
+((infix_expression
+  operator: (operator_identifier) @operator) @branch
+  (#any-of? @operator "&&" "||"))
+
+[
+  (if_expression consequence: (_) @nesting)
+  (if_expression alternative: (block) @nesting)
+  (for_expression body: (_) @nesting)
+  (while_expression body: (_) @nesting)
+  (do_while_expression body: (_) @nesting)
+  (match_expression body: (_) @nesting)
+  (try_expression body: (_) @nesting)
+  (catch_clause (_) @nesting)
+]
+
+(return_expression) @return
+
+[
+  (comment)
+  (block_comment)
+] @comment
@@ -0,0 +1,79 @@
+; Function detection and metrics for Swift (captures are described in the README)
+
+(function_declaration
+  name: (simple_identifier) @name
+  body: (_) @body) @function
+
+(init_declaration
+  "init" @name
+  body: (_) @body) @function
+
+(deinit_declaration
+  "deinit" @name
+  body: (_) @body) @function
+
+(protocol_function_declaration
+  name: (simple_identifier) @name) @function
+
+; Closures assigned to a constant or variable
+(property_declaration
+  name: (pattern bound_identifier: (simple_identifier) @name)
+  value: (lambda_literal) @function)
+
+; Classes, structs, enums and extensions
+(class_declaration
+  name: [
+    (type_identifier) @name
+    (user_type (type_identifier) @name)
+  ]) @container
+
+(protocol_declaration
+  name: (type_identifier) @name) @container
+
+; Metrics
+
+[
+  (function_declaration (parameter) @parameter)
+  (init_declaration (parameter) @parameter)
+  (protocol_function_declaration (parameter) @parameter)
+]
+
+(lambda_literal
+  type: (lambda_function_type
+    (lambda_function_type_parameters) @parameters))
+
+[
+  (if_statement)
+  (guard_statement)
+  (for_statement)
+  (while_statement)
+  (repeat_while_statement)
+  (catch_block)
+  (ternary_expression)
+  (conjunction_expression)
+  (disjunction_expression)
+  (nil_coalescing_expression)
+] @branch
+
+(switch_entry
+  (switch_pattern)) @branch
+
+[
+  (if_statement (statements) @nesting)
+  (guard_statement (statements) @nesting)
+  (for_statement (statements) @nesting)
+  (while_statement (statements) @nesting)
+  (repeat_while_statement (statements) @nesting)
+  (do_statement (statements) @nesting)
+  (catch_block (statements) @nesting)
+]
+
+(switch_statement) @nesting
+
+(control_transfer_statement
+  "return") @return
+
+[
+  (comment)
+  (multiline_comment)
+] @comment
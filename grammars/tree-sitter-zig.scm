@@ -0,0 +1,49 @@
+; Function detection and metrics for Zig (captures are described in the README)
+
+(function_declaration
+  name: (identifier) @name
+  body: (_) @body) @function
+
+; Named structs, unions, enums and opaque types: const Point = struct { ... };
+(variable_declaration
+  (identifier) @name
+  [
+    (struct_declaration)
+    (union_declaration)
+    (enum_declaration)
+    (opaque_declaration)
+  ]) @container
+
+; Metrics
+
+(function_declaration
+  (parameters) @parameters)
+
+[
+  (if_statement)
+  (if_expression)
+  (for_statement)
+  (for_expression)
+  (while_statement)
+  (while_expression)
+  (catch_expression)
+] @branch
+
+((switch_case) @branch
+  (#not-match? @branch "^else"))
+
+(binary_expression
+  operator: ["and" "or" "orelse"]) @branch
+
+[
+  (if_statement body: (_) @nesting)
+  (else_clause alternative: (labeled_statement) @nesting)
+  (for_statement body: (_) @nesting)
+  (while_statement body: (_) @nesting)
+]
+
+(switch_expression) @nesting
+
+(return_expression) @return
+
+(comment) @comment
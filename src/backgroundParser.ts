@@ -0,0 +1,145 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { CustomGrammar, FunctionInfo, TextEdit } from './parser';
+
+// Messages sent from the extension host to the parser worker
+export type WorkerRequest =
+    | { type: 'initialize', id: number }
+    | { type: 'parse', id: number, documentKey: string, languageId: string, sourceCode: string }
+    | { type: 'edit', documentKey: string, edit: TextEdit }
+    | { type: 'release', documentKey: string }
+    | { type: 'configure', queryDirectories?: string[], customGrammars?: { [languageId: string]: CustomGrammar } };
+
+// Messages sent back from the parser worker
+export interface WorkerResponse {
+    id: number;
+    error?: string;
+    result?: ParseResult;
+}
+
+export interface ParseResult {
+    cancelled: boolean; // A newer parse of the same document superseded this one
+    supported: boolean; // The document's language has a grammar
+    loadError?: string; // Why the language's grammar or function query failed to load
+    functions: FunctionInfo[];
+}
+
+interface PendingRequest {
+    resolve: (result: ParseResult) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Runs CppParser in a worker thread so parsing never blocks the extension host.
+ * The worker keeps its own web-tree-sitter instance and per-document trees.
+ */
+export class BackgroundParser {
+    private worker: Worker | null = null;
+    private nextRequestId = 1;
+    private pending: Map<number, PendingRequest> = new Map();
+    private queryDirectories: string[] = [];
+    private customGrammars: { [languageId: string]: CustomGrammar } = {};
+
+    /**
+     * Start the worker and wait for tree-sitter to initialize inside it
+     */
+    async initialize(): Promise<void> {
+        await this.send({ type: 'initialize', id: this.nextRequestId++ });
+    }
+
+    /**
+     * Parse a document in the worker.
+     * Requests for the same document are handled in order; if a newer parse of the
+     * document is queued before an older one starts, the older one is cancelled.
+     */
+    parseFunctions(documentKey: string, languageId: string, sourceCode: string): Promise<ParseResult> {
+        return this.send({ type: 'parse', id: this.nextRequestId++, documentKey, languageId, sourceCode });
+    }
+
+    applyEdit(documentKey: string, edit: TextEdit): void {
+        this.getWorker().postMessage({ type: 'edit', documentKey, edit } as WorkerRequest);
+    }
+
+    releaseDocument(documentKey: string): void {
+        this.getWorker().postMessage({ type: 'release', documentKey } as WorkerRequest);
+    }
+
+    /**
+     * Set the folders searched for user function queries; cached queries are reloaded
+     */
+    setQueryDirectories(queryDirectories: string[]): void {
+        this.queryDirectories = queryDirectories;
+        this.getWorker().postMessage({ type: 'configure', queryDirectories } as WorkerRequest);
+    }
+
+    /**
+     * Register user grammars by language ID; grammars of earlier registrations are unloaded
+     */
+    setCustomGrammars(customGrammars: { [languageId: string]: CustomGrammar }): void {
+        this.customGrammars = customGrammars;
+        this.getWorker().postMessage({ type: 'configure', customGrammars } as WorkerRequest);
+    }
+
+    dispose(): void {
+        if (this.worker) {
+            this.worker.terminate();
+            this.worker = null;
+        }
+        this.rejectPending(new Error('Background parser disposed'));
+    }
+
+    private send(request: WorkerRequest & { id: number }): Promise<ParseResult> {
+        return new Promise((resolve, reject) => {
+            this.pending.set(request.id, { resolve, reject });
+            this.getWorker().postMessage(request);
+        });
+    }
+
+    private getWorker(): Worker {
+        if (!this.worker) {
+            const worker = new Worker(path.join(__dirname, 'parserWorker.js'));
+
+            worker.on('message', (response: WorkerResponse) => {
+                const request = this.pending.get(response.id);
+                if (!request) {
+                    return;
+                }
+                this.pending.delete(response.id);
+                if (response.error) {
+                    request.reject(new Error(response.error));
+                } else {
+                    request.resolve(response.result!);
+                }
+            });
+
+            // If the worker dies, fail outstanding requests; the next request starts a
+            // fresh worker, which re-parses documents from scratch
+            worker.on('error', error => {
+                console.error('Parser worker failed:', error);
+                this.rejectPending(error);
+            });
+            worker.on('exit', () => {
+                if (this.worker === worker) {
+                    this.worker = null;
+                }
+            });
+
+            this.worker = worker;
+
+            // A restarted worker needs the query folders and user grammars again
+            if (this.queryDirectories.length > 0 || Object.keys(this.customGrammars).length > 0) {
+                worker.postMessage({
+                    type: 'configure',
+                    queryDirectories: this.queryDirectories,
+                    customGrammars: this.customGrammars
+                } as WorkerRequest);
+            }
+        }
+        return this.worker;
+    }
+
+    private rejectPending(error: Error): void {
+        this.pending.forEach(request => request.reject(error));
+        this.pending.clear();
+    }
+}
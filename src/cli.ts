@@ -0,0 +1,324 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { CppParser, FunctionInfo } from './parser';
+import { ColorAssignment, ColorCalculator, ColorConfig, ColorMode, PalettePreset, PALETTE_PRESETS } from './colorCalculator';
+import { ExportedFile, ExportFormat, formatFunctionReport } from './functionExport';
+import { FunctionHistory, GitHistory } from './gitHistory';
+
+// Command line entry point: lists the functions of files and directories the same
+// way the extension finds and colors them, and checks them against size limits
+
+// Limits that make the command fail when a function exceeds them
+interface Thresholds {
+    maxLines?: number;
+    maxComplexity?: number;
+    maxNesting?: number;
+    maxParameters?: number;
+}
+
+interface CliOptions {
+    paths: string[];
+    format: 'text' | ExportFormat;
+    language?: string; // Language ID for all files instead of one from the file extension
+    queries?: string; // Folder of user function queries
+    colorMode: ColorMode;
+    colorAssignment: ColorAssignment;
+    palette: PalettePreset;
+    dark: boolean;
+    minLines: number;
+    maxLinesColor: number;
+    historyDays: number;
+    thresholds: Thresholds;
+}
+
+// A function that exceeds a limit
+interface Violation {
+    file: string;
+    functionInfo: FunctionInfo;
+    problem: string;
+}
+
+const USAGE = `Usage: function-highlight [options] <file or directory>...
+
+Lists the functions of source files, searching directories recursively
+(hidden folders and node_modules are skipped).
+
+Output:
+  --format <text|json|csv|markdown>  Output format (default: text); json, csv and
+                                     markdown use the versioned export format
+  --language <id>                    Parse every file as this language ID
+  --queries <dir>                    Folder with tree-sitter-<grammar>.scm queries
+                                     replacing the bundled ones
+
+Colors (as in the editor settings):
+  --color-mode <mode>                distinct, heatmap, container, depth, age or churn
+                                     (default: distinct)
+  --color-assignment <mode>          identity or position (default: identity)
+  --palette <name>                   pastel, colorblindSafe, monochrome or highContrast
+                                     (default: pastel)
+  --theme <dark|light>               Theme kind to pick colors for (default: dark)
+  --min-lines <n>, --max-lines-color <n>
+                                     Length range of the brightness scaling and
+                                     heatmap (defaults: 5, 100)
+  --history-days <n>                 Age at which the age mode turns neutral (default: 365)
+
+Limits (exit code 1 when a function exceeds one):
+  --max-lines <n>                    Longest allowed function, in lines
+  --max-complexity <n>               Highest allowed cyclomatic complexity
+  --max-nesting <n>                  Deepest allowed control-flow nesting
+  --max-parameters <n>               Most allowed parameters
+
+  -h, --help                         Show this help
+`;
+
+class UsageError extends Error {}
+
+async function main(args: string[]): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArguments(args);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            process.stderr.write(`${error.message}\n\n${USAGE}`);
+            return 2;
+        }
+        throw error;
+    }
+
+    let filePaths: string[];
+    try {
+        filePaths = collectFiles(options.paths, options.language !== undefined);
+    } catch (error) {
+        process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+        return 2;
+    }
+
+    const parser = new CppParser();
+    await parser.initialize();
+    if (options.queries) {
+        parser.setQueryDirectories([path.resolve(options.queries)]);
+    }
+
+    const colorCalculator = new ColorCalculator();
+    colorCalculator.setPalette(PALETTE_PRESETS[options.palette]);
+    const colorConfig: ColorConfig = {
+        baseColor: '#ffff00',
+        minLines: options.minLines,
+        maxLines: Math.max(options.maxLinesColor, options.minLines + 1),
+        opacity: 0.5,
+        mode: options.colorMode,
+        historyDays: options.historyDays
+    };
+    const gitHistory = new GitHistory();
+
+    const files: ExportedFile[] = [];
+    const violations: Violation[] = [];
+    let failed = false;
+
+    for (const filePath of filePaths) {
+        const languageId = options.language || CppParser.getLanguageIdForFile(filePath)!;
+        if (!await parser.setLanguage(languageId)) {
+            const loadError = parser.getLoadError(languageId);
+            process.stderr.write(`${filePath}: language ${languageId} is not supported${loadError ? ` (${loadError})` : ''}\n`);
+            failed = true;
+            continue;
+        }
+
+        const functions = parser.parseFunctions(fs.readFileSync(filePath, 'utf8'));
+        let history: (FunctionHistory | undefined)[] | undefined;
+        if (options.colorMode === 'age' || options.colorMode === 'churn') {
+            if (options.colorMode === 'churn') {
+                await gitHistory.loadChurn(path.resolve(filePath));
+            }
+            history = await gitHistory.getFunctionHistory(path.resolve(filePath), functions, options.colorMode === 'churn');
+        }
+        const colors = colorCalculator.getFunctionColors(functions, options.colorAssignment, colorConfig, options.dark, history);
+
+        const displayPath = path.relative(process.cwd(), filePath) || filePath;
+        files.push({ path: displayPath.split(path.sep).join('/'), functions, colors: colors.map(color => color.border) });
+        violations.push(...findViolations(displayPath, functions, options.thresholds));
+    }
+
+    process.stdout.write(options.format === 'text' ? formatText(files) : formatFunctionReport(files, options.format));
+
+    // Limit violations go to stderr so they stay visible next to machine-readable output
+    violations.forEach(violation => {
+        process.stderr.write(`${violation.file}:${violation.functionInfo.declarationLine + 1}: ${violation.functionInfo.name} ${violation.problem}\n`);
+    });
+
+    if (failed) {
+        return 2;
+    }
+    return violations.length > 0 ? 1 : 0;
+}
+
+function parseArguments(args: string[]): CliOptions {
+    const options: CliOptions = {
+        paths: [],
+        format: 'text',
+        colorMode: 'distinct',
+        colorAssignment: 'identity',
+        palette: 'pastel',
+        dark: true,
+        minLines: 5,
+        maxLinesColor: 100,
+        historyDays: 365,
+        thresholds: {}
+    };
+
+    const value = (index: number, flag: string): string => {
+        if (index >= args.length) {
+            throw new UsageError(`${flag} needs a value`);
+        }
+        return args[index];
+    };
+    const choice = <T extends string>(index: number, flag: string, choices: readonly T[]): T => {
+        const text = value(index, flag);
+        if (!(choices as readonly string[]).includes(text)) {
+            throw new UsageError(`${flag} must be one of ${choices.join(', ')}`);
+        }
+        return text as T;
+    };
+    const count = (index: number, flag: string): number => {
+        const text = value(index, flag);
+        if (!/^\d+$/.test(text)) {
+            throw new UsageError(`${flag} needs a whole number`);
+        }
+        return parseInt(text, 10);
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case '-h':
+            case '--help':
+                process.stdout.write(USAGE);
+                process.exit(0);
+                break;
+            case '--format':
+                options.format = choice(++i, arg, ['text', 'json', 'csv', 'markdown'] as const);
+                break;
+            case '--language':
+                options.language = value(++i, arg);
+                break;
+            case '--queries':
+                options.queries = value(++i, arg);
+                break;
+            case '--color-mode':
+                options.colorMode = choice(++i, arg, ['distinct', 'heatmap', 'container', 'depth', 'age', 'churn'] as const);
+                break;
+            case '--color-assignment':
+                options.colorAssignment = choice(++i, arg, ['identity', 'position'] as const);
+                break;
+            case '--palette':
+                options.palette = choice(++i, arg, Object.keys(PALETTE_PRESETS) as PalettePreset[]);
+                break;
+            case '--theme':
+                options.dark = choice(++i, arg, ['dark', 'light'] as const) === 'dark';
+                break;
+            case '--min-lines':
+                options.minLines = Math.max(count(++i, arg), 1);
+                break;
+            case '--max-lines-color':
+                options.maxLinesColor = count(++i, arg);
+                break;
+            case '--history-days':
+                options.historyDays = Math.max(count(++i, arg), 1);
+                break;
+            case '--max-lines':
+                options.thresholds.maxLines = count(++i, arg);
+                break;
+            case '--max-complexity':
+                options.thresholds.maxComplexity = count(++i, arg);
+                break;
+            case '--max-nesting':
+                options.thresholds.maxNesting = count(++i, arg);
+                break;
+            case '--max-parameters':
+                options.thresholds.maxParameters = count(++i, arg);
+                break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`Unknown option ${arg}`);
+                }
+                options.paths.push(arg);
+        }
+    }
+
+    if (options.paths.length === 0) {
+        throw new UsageError('No files or directories given');
+    }
+    return options;
+}
+
+/**
+ * Expand directories into the files with a supported extension, in path order.
+ * Files named explicitly are kept when a language is forced.
+ */
+function collectFiles(paths: string[], keepAllFiles: boolean): string[] {
+    const files: string[] = [];
+
+    const visit = (filePath: string, explicit: boolean) => {
+        let stat: fs.Stats;
+        try {
+            stat = fs.statSync(filePath);
+        } catch {
+            throw new Error(`Cannot read ${filePath}`);
+        }
+
+        if (stat.isDirectory()) {
+            fs.readdirSync(filePath).sort().forEach(entry => {
+                if (!entry.startsWith('.') && entry !== 'node_modules') {
+                    visit(path.join(filePath, entry), false);
+                }
+            });
+        } else if ((explicit && keepAllFiles) || CppParser.getLanguageIdForFile(filePath)) {
+            files.push(filePath);
+        }
+    };
+
+    paths.forEach(filePath => visit(filePath, true));
+    return files;
+}
+
+function findViolations(file: string, functions: FunctionInfo[], thresholds: Thresholds): Violation[] {
+    const violations: Violation[] = [];
+    functions.forEach(func => {
+        const check = (value: number, limit: number | undefined, describe: (value: number) => string) => {
+            if (limit !== undefined && value > limit) {
+                violations.push({ file, functionInfo: func, problem: `has ${describe(value)} (max ${limit})` });
+            }
+        };
+        check(func.lineCount, thresholds.maxLines, value => `${value} lines`);
+        check(func.metrics.cyclomaticComplexity, thresholds.maxComplexity, value => `cyclomatic complexity ${value}`);
+        check(func.metrics.maxNesting, thresholds.maxNesting, value => `nesting depth ${value}`);
+        check(func.metrics.parameterCount, thresholds.maxParameters, value => `${value} parameters`);
+    });
+    return violations;
+}
+
+function formatText(files: ExportedFile[]): string {
+    const lines: string[] = [];
+    files.forEach(file => {
+        lines.push(file.path);
+        file.functions.forEach((func, index) => {
+            const name = func.className ? `${func.className}::${func.name}` : func.name;
+            lines.push([
+                '  '.repeat(func.depth + 1) + `${func.declarationLine + 1}-${func.endLine + 1}`.padEnd(12),
+                `${func.lineCount} lines`.padEnd(10),
+                `complexity ${func.metrics.cyclomaticComplexity}`.padEnd(14),
+                file.colors[index],
+                name
+            ].join(' '));
+        });
+    });
+    return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}, error => {
+    process.stderr.write(`${error instanceof Error ? error.stack : error}\n`);
+    process.exitCode = 2;
+});
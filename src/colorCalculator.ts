@@ -1,7 +1,33 @@
+import { CppParser, FunctionInfo } from './parser';
+import { FunctionHistory } from './gitHistory';
+
 export interface ColorConfig {
     baseColor: string;
     minLines: number;
     maxLines: number;
+    opacity: number; // Opacity of the highlight band (0-1)
+    mode: ColorMode;
+    historyDays: number; // Age in days at which functions count as old in the age mode
+}
+
+// How functions are colored
+// - distinct: neighbouring functions get different palette colors
+// - heatmap: neutral for short functions, red for long ones
+// - container: all functions of a class/namespace share a palette color
+// - depth: the nesting depth picks the palette color
+// - age: recently changed functions are red, old ones neutral (from git blame)
+// - churn: functions changed in many commits are red (from git log)
+export type ColorMode = 'distinct' | 'heatmap' | 'container' | 'depth' | 'age' | 'churn';
+
+// How palette colors are assigned to functions
+// - position: by the function's position in the file
+// - identity: by the function's qualified name, so colors survive edits elsewhere in the file
+export type ColorAssignment = 'position' | 'identity';
+
+// Colors of one function's band
+export interface FunctionColors {
+    background: string; // Band color, adjusted for the function's length
+    border: string; // Solid color for gutter markers, icons and the minimap
 }
 
 export interface RGBColor {
@@ -10,10 +36,18 @@ export interface RGBColor {
     b: number;
 }
 
-export class ColorCalculator {
+export interface Palette {
+    dark: string[];
+    light: string[];
+}
+
+export type PalettePreset = 'pastel' | 'colorblindSafe' | 'monochrome' | 'highContrast';
+
+// Built-in palettes, selectable through the functionHighlight.palette setting
+export const PALETTE_PRESETS: { [key in PalettePreset]: Palette } = {
     // Godbolt-inspired soft pastel color palette
     // Light, subtle colors that don't interfere with code readability
-    private colorPalette: { dark: string[], light: string[] } = {
+    pastel: {
         dark: [
             '#2d4a2c', // muted dark green
             '#4a3829', // muted dark brown/tan
@@ -38,7 +72,120 @@ export class ColorCalculator {
             '#e8f4e8', // soft mint
             '#e8d4f4', // soft purple
         ]
-    };
+    },
+    // Okabe-Ito based colors that stay distinguishable with deuteranopia and protanopia
+    colorblindSafe: {
+        dark: [
+            '#5c4000', // dark orange
+            '#22485d', // dark sky blue
+            '#003f2e', // dark bluish green
+            '#5f5b1a', // dark yellow
+            '#002e47', // dark blue
+            '#552600', // dark vermillion
+            '#523043', // dark reddish purple
+            '#3a3a3a', // dark grey
+        ],
+        light: [
+            '#fae2b3', // light orange
+            '#cce8f8', // light sky blue
+            '#b3e2d5', // light bluish green
+            '#fbf7c6', // light yellow
+            '#b3d5e8', // light blue
+            '#f2cfb3', // light vermillion
+            '#f0d7e5', // light reddish purple
+            '#e0e0e0', // light grey
+        ]
+    },
+    // Alternating grey levels for a distraction-free look
+    monochrome: {
+        dark: ['#3a3a3a', '#505050', '#2e2e2e', '#464646'],
+        light: ['#e6e6e6', '#d0d0d0', '#f0f0f0', '#dadada']
+    },
+    // Saturated colors with strong separation between neighbouring functions
+    highContrast: {
+        dark: ['#0050a0', '#a05000', '#007a30', '#8a007a', '#7a7a00', '#006a7a'],
+        light: ['#ffd000', '#00c8ff', '#7cff5c', '#ff8ad8', '#ffa040', '#b8a0ff']
+    }
+};
+
+// Heatmap stops from cold (neutral) through amber to hot (red), used by the
+// heatmap, age and churn color modes
+const HEATMAP_STOPS = {
+    dark: ['#3a3a3a', '#6b561e', '#8b1e1e'],
+    light: ['#ececec', '#ffe39c', '#ff9c9c']
+};
+
+// Typical editor colors per theme kind. The VS Code API does not expose the
+// active theme's colors, so contrast is checked against these instead.
+export const EDITOR_COLORS = {
+    dark: { background: '#1e1e1e', foreground: '#d4d4d4' },
+    light: { background: '#ffffff', foreground: '#000000' }
+};
+
+// WCAG AA minimum contrast ratio for normal text
+const MIN_TEXT_CONTRAST = 4.5;
+
+export interface PaletteWarning {
+    color: string;
+    problem: string;
+}
+
+export class ColorCalculator {
+    private colorPalette: Palette = PALETTE_PRESETS.pastel;
+
+    /**
+     * Replace the palette used for both theme kinds
+     */
+    setPalette(palette: Palette): void {
+        this.colorPalette = palette;
+    }
+
+    /**
+     * Get the palette colors for the current theme kind
+     */
+    getPalette(isDarkTheme: boolean): string[] {
+        return isDarkTheme ? this.colorPalette.dark : this.colorPalette.light;
+    }
+
+    /**
+     * Check palette colors for malformed values and for code text that would be
+     * hard to read on top of the highlight band
+     */
+    validatePalette(colors: string[], opacity: number, isDarkTheme: boolean): PaletteWarning[] {
+        const editorColors = isDarkTheme ? EDITOR_COLORS.dark : EDITOR_COLORS.light;
+        const background = this.hexToRgb(editorColors.background)!;
+        const foreground = this.hexToRgb(editorColors.foreground)!;
+        const warnings: PaletteWarning[] = [];
+
+        colors.forEach(color => {
+            const rgb = this.hexToRgb(color);
+            if (!rgb) {
+                warnings.push({ color, problem: 'not a #rrggbb color' });
+                return;
+            }
+
+            // The band is drawn with transparency over the editor background
+            const blended: RGBColor = {
+                r: background.r + (rgb.r - background.r) * opacity,
+                g: background.g + (rgb.g - background.g) * opacity,
+                b: background.b + (rgb.b - background.b) * opacity
+            };
+            const ratio = this.getContrastRatio(blended, foreground);
+            if (ratio < MIN_TEXT_CONTRAST) {
+                warnings.push({ color, problem: `text contrast ${ratio.toFixed(1)}:1 is below ${MIN_TEXT_CONTRAST}:1` });
+            }
+        });
+
+        return warnings;
+    }
+
+    /**
+     * Append an alpha channel for the given opacity (0-1) to a #rrggbb color
+     */
+    withAlpha(color: string, opacity: number): string {
+        const alpha = Math.round(Math.min(Math.max(opacity, 0), 1) * 255);
+        return color + (alpha < 16 ? '0' : '') + alpha.toString(16);
+    }
 
     /**
      * Converts hex color to RGB
@@ -87,12 +234,208 @@ export class ColorCalculator {
         return (lighter + 0.05) / (darker + 0.05);
     }
 
+    /**
+     * Assign a palette index to each function.
+     * In identity mode the index is derived from a hash of the function's qualified
+     * name plus an overload counter for functions sharing that name. Overloads are
+     * counted in file order, so reordering them swaps their colors.
+     * Collisions with the previous function, the previous function with the same
+     * parent and the enclosing function are resolved by probing, so neighbouring
+     * functions never share a color.
+     */
+    assignColorIndices(functions: FunctionInfo[], assignment: ColorAssignment, isDarkTheme: boolean): number[] {
+        if (assignment === 'position') {
+            return functions.map((_, index) => index);
+        }
+
+        const paletteSize = this.getPalette(isDarkTheme).length;
+        const indices: number[] = [];
+        const indexOf: Map<FunctionInfo, number> = new Map();
+        const overloadCounts: Map<string, number> = new Map();
+        // The previous entry is the last nested function of a previous sibling that has
+        // nested functions, so the sibling's own color is tracked per parent
+        const lastSiblingIndex: Map<FunctionInfo | undefined, number> = new Map();
+
+        functions.forEach((func, position) => {
+            const avoid = new Set<number>();
+            if (position > 0) {
+                avoid.add(indices[position - 1]);
+            }
+            if (func.parent && indexOf.has(func.parent)) {
+                avoid.add(indexOf.get(func.parent)!);
+            }
+            if (lastSiblingIndex.has(func.parent)) {
+                avoid.add(lastSiblingIndex.get(func.parent)!);
+            }
+
+            const qualifiedName = CppParser.getQualifiedName(func);
+            const overloadIndex = overloadCounts.get(qualifiedName) || 0;
+            overloadCounts.set(qualifiedName, overloadIndex + 1);
+
+            let colorIndex = this.hashString(`${qualifiedName}#${overloadIndex}`) % paletteSize;
+            for (let attempt = 0; attempt < paletteSize && avoid.has(colorIndex); attempt++) {
+                colorIndex = (colorIndex + 1) % paletteSize;
+            }
+
+            indices.push(colorIndex);
+            indexOf.set(func, colorIndex);
+            lastSiblingIndex.set(func.parent, colorIndex);
+        });
+
+        return indices;
+    }
+
+    /**
+     * Pick the colors of every function for the configured color mode.
+     * The editor bands and the Functions view both use this, so they always agree.
+     * The age and churn modes need the functions' git history; functions without
+     * history are drawn in the neutral heatmap color.
+     */
+    getFunctionColors(
+        functions: FunctionInfo[],
+        assignment: ColorAssignment,
+        config: ColorConfig,
+        isDarkTheme: boolean,
+        history?: (FunctionHistory | undefined)[]
+    ): FunctionColors[] {
+        const heat = (value: number): FunctionColors => {
+            const color = this.getHeatmapColor(value, isDarkTheme);
+            return { background: color, border: color };
+        };
+
+        switch (config.mode) {
+            case 'heatmap':
+                return functions.map(func => heat((func.lineCount - config.minLines) / (config.maxLines - config.minLines)));
+
+            case 'age': {
+                const dayMs = 24 * 60 * 60 * 1000;
+                const now = Date.now();
+                return functions.map((_, index) => {
+                    const entry = history ? history[index] : undefined;
+                    return heat(entry ? 1 - (now - entry.lastChanged) / (config.historyDays * dayMs) : 0);
+                });
+            }
+
+            case 'churn': {
+                // Churn is relative to the most changed function of the file
+                const counts = functions.map((_, index) => (history && history[index] && history[index]!.commits) || 0);
+                const maxCount = Math.max(...counts, 1);
+                return counts.map(count => heat(maxCount > 1 ? (count - 1) / (maxCount - 1) : 0));
+            }
+
+            case 'container': {
+                const indices = this.assignContainerIndices(functions, isDarkTheme);
+                return functions.map((func, index) => {
+                    // Nested functions are shaded so they stand out inside their parent's band
+                    const color = this.shade(this.getBorderColor(indices[index], func.lineCount, config, isDarkTheme), func.depth * 0.12, isDarkTheme);
+                    return { background: color, border: color };
+                });
+            }
+
+            case 'depth':
+                return functions.map(func => ({
+                    background: this.calculateColor(func.depth, func.lineCount, config, isDarkTheme),
+                    border: this.getBorderColor(func.depth, func.lineCount, config, isDarkTheme)
+                }));
+
+            default: {
+                const indices = this.assignColorIndices(functions, assignment, isDarkTheme);
+                return functions.map((func, index) => ({
+                    background: this.calculateColor(indices[index], func.lineCount, config, isDarkTheme),
+                    border: this.getBorderColor(indices[index], func.lineCount, config, isDarkTheme)
+                }));
+            }
+        }
+    }
+
+    /**
+     * Assign one palette index per container (class/namespace), derived from a hash
+     * of its name. Functions outside any container are colored by their top-level
+     * function. Neighbouring containers are probed apart so they never share a color.
+     */
+    private assignContainerIndices(functions: FunctionInfo[], isDarkTheme: boolean): number[] {
+        const paletteSize = this.getPalette(isDarkTheme).length;
+        const containerIndices: Map<string, number> = new Map();
+        let previousKey: string | undefined;
+
+        return functions.map(func => {
+            let root = func;
+            while (root.parent) {
+                root = root.parent;
+            }
+            const key = root.className ? `class:${root.className}` : `function:${CppParser.getQualifiedName(root)}`;
+
+            let colorIndex = containerIndices.get(key);
+            if (colorIndex === undefined) {
+                const avoid = previousKey !== undefined ? containerIndices.get(previousKey) : undefined;
+                colorIndex = this.hashString(key) % paletteSize;
+                if (colorIndex === avoid && paletteSize > 1) {
+                    colorIndex = (colorIndex + 1) % paletteSize;
+                }
+                containerIndices.set(key, colorIndex);
+            }
+
+            previousKey = key;
+            return colorIndex;
+        });
+    }
+
+    /**
+     * Interpolate the heatmap stops; value 0 is neutral, 1 is hot (clamped)
+     */
+    private getHeatmapColor(value: number, isDarkTheme: boolean): string {
+        const stops = (isDarkTheme ? HEATMAP_STOPS.dark : HEATMAP_STOPS.light).map(color => this.hexToRgb(color)!);
+        const normalized = Math.min(Math.max(value, 0), 1);
+
+        const position = normalized * (stops.length - 1);
+        const lower = Math.min(Math.floor(position), stops.length - 2);
+        const t = position - lower;
+        const from = stops[lower];
+        const to = stops[lower + 1];
+
+        return this.rgbToHex({
+            r: from.r + (to.r - from.r) * t,
+            g: from.g + (to.g - from.g) * t,
+            b: from.b + (to.b - from.b) * t
+        });
+    }
+
+    /**
+     * Move a color towards white (dark themes) or black (light themes) by amount (0-1)
+     */
+    private shade(color: string, amount: number, isDarkTheme: boolean): string {
+        const rgb = this.hexToRgb(color);
+        if (!rgb || amount <= 0) {
+            return color;
+        }
+
+        const target = isDarkTheme ? 255 : 0;
+        const factor = Math.min(amount, 1);
+        return this.rgbToHex({
+            r: rgb.r + (target - rgb.r) * factor,
+            g: rgb.g + (target - rgb.g) * factor,
+            b: rgb.b + (target - rgb.b) * factor
+        });
+    }
+
+    /**
+     * FNV-1a hash of a string, stable across sessions
+     */
+    private hashString(value: string): number {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < value.length; i++) {
+            hash ^= value.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+
     /**
      * Get a distinct solid color for a function based on its index
      * The color brightness is modulated by function length
      */
     calculateColor(functionIndex: number, lineCount: number, config: ColorConfig, isDarkTheme: boolean): string {
-        const palette = isDarkTheme ? this.colorPalette.dark : this.colorPalette.light;
+        const palette = this.getPalette(isDarkTheme);
         const baseColor = palette[functionIndex % palette.length];
         const baseRgb = this.hexToRgb(baseColor);
 
@@ -134,7 +477,7 @@ export class ColorCalculator {
      * Get border color - slightly brighter/darker than background for visibility
      */
     getBorderColor(functionIndex: number, lineCount: number, config: ColorConfig, isDarkTheme: boolean): string {
-        const palette = isDarkTheme ? this.colorPalette.dark : this.colorPalette.light;
+        const palette = this.getPalette(isDarkTheme);
         const baseColor = palette[functionIndex % palette.length];
         const baseRgb = this.hexToRgb(baseColor);
 
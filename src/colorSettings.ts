@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { ColorCalculator, ColorConfig, ColorMode, Palette, PalettePreset, PaletteWarning, PALETTE_PRESETS } from './colorCalculator';
+
+/**
+ * Read the color mode, thresholds and band opacity from the settings
+ */
+export function getColorConfig(): ColorConfig {
+    const config = vscode.workspace.getConfiguration('functionHighlight');
+    const minLines = config.get<number>('minLines', 5);
+    const maxLines = config.get<number>('maxLines', 100);
+
+    return {
+        baseColor: '#ffff00',
+        minLines,
+        // Keep the range non-empty so brightness scaling never divides by zero
+        maxLines: Math.max(maxLines, minLines + 1),
+        opacity: config.get<number>('opacity', 0.5),
+        mode: config.get<ColorMode>('colorMode', 'distinct'),
+        historyDays: Math.max(config.get<number>('historyDays', 365), 1)
+    };
+}
+
+/**
+ * Load the palette selected in the settings into the color calculator and
+ * return any problems found with its colors on the current theme kind
+ */
+export function applyPaletteSettings(colorCalculator: ColorCalculator, isDarkTheme: boolean): PaletteWarning[] {
+    const config = vscode.workspace.getConfiguration('functionHighlight');
+    const preset = config.get<string>('palette', 'pastel');
+
+    let palette: Palette;
+    const warnings: PaletteWarning[] = [];
+
+    if (preset === 'custom') {
+        // Custom colors per theme kind; a kind left empty uses the default palette
+        const custom = config.get<Partial<Palette>>('customPalette', {});
+        const pick = (colors: string[] | undefined, fallback: string[]): string[] => {
+            const valid = (colors || []).filter(color => /^#[0-9a-f]{6}$/i.test(color));
+            (colors || []).filter(color => !valid.includes(color)).forEach(color => {
+                warnings.push({ color, problem: 'not a #rrggbb color, ignored' });
+            });
+            return valid.length > 0 ? valid : fallback;
+        };
+        palette = {
+            dark: pick(custom.dark, PALETTE_PRESETS.pastel.dark),
+            light: pick(custom.light, PALETTE_PRESETS.pastel.light)
+        };
+    } else {
+        palette = PALETTE_PRESETS[preset as PalettePreset] || PALETTE_PRESETS.pastel;
+    }
+
+    colorCalculator.setPalette(palette);
+
+    const opacity = getColorConfig().opacity;
+    warnings.push(...colorCalculator.validatePalette(colorCalculator.getPalette(isDarkTheme), opacity, isDarkTheme));
+    return warnings;
+}
@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { CppParser, FunctionInfo } from './parser';
+
+/**
+ * Find the innermost function containing a line, from its declaration to its end
+ */
+export function findFunctionAt(functions: FunctionInfo[], line: number): FunctionInfo | undefined {
+    // Functions are listed parents-first, so the last match is the most deeply nested
+    let found: FunctionInfo | undefined;
+    for (const func of functions) {
+        if (line >= func.declarationLine && line <= func.endLine) {
+            found = func;
+        }
+    }
+    return found;
+}
+
+/**
+ * Status bar entry naming the function at the cursor, with a swatch in the
+ * function's color and the cursor's line within the function
+ */
+export class CurrentFunctionStatusBar implements vscode.Disposable {
+    private swatchItem: vscode.StatusBarItem;
+    private textItem: vscode.StatusBarItem;
+
+    constructor(command: string) {
+        // The swatch is a separate item because an item's color applies to all of its text
+        this.swatchItem = vscode.window.createStatusBarItem('functionHighlight.currentFunctionColor', vscode.StatusBarAlignment.Left, 101);
+        this.swatchItem.name = 'Current Function Color';
+        this.swatchItem.text = '$(circle-large-filled)';
+        this.swatchItem.command = command;
+
+        this.textItem = vscode.window.createStatusBarItem('functionHighlight.currentFunction', vscode.StatusBarAlignment.Left, 100);
+        this.textItem.name = 'Current Function';
+        this.textItem.command = command;
+    }
+
+    show(functionInfo: FunctionInfo, color: string, line: number): void {
+        const name = CppParser.getQualifiedName(functionInfo);
+        const position = `line ${line - functionInfo.declarationLine + 1} of ${functionInfo.endLine - functionInfo.declarationLine + 1}`;
+
+        this.swatchItem.color = color;
+        this.swatchItem.tooltip = `${name} (${color})`;
+        this.textItem.text = `${name}, ${position}`;
+        this.textItem.tooltip = `${name}: ${position}\nClick to go to another function of this file`;
+
+        this.swatchItem.show();
+        this.textItem.show();
+    }
+
+    hide(): void {
+        this.swatchItem.hide();
+        this.textItem.hide();
+    }
+
+    dispose(): void {
+        this.swatchItem.dispose();
+        this.textItem.dispose();
+    }
+}
@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { GutterCell, GutterOptions, getGutterCellKey, renderGutterIcon, toSvgFile } from './gutterRenderer';
+import { IconCache } from './iconCache';
+
+// Width of the left and right borders that stretch a band across the whole editor
+const BAND_BORDER_WIDTH = 5000;
+
+// Width of the accent rail of the rail highlight style
+const RAIL_WIDTH = 3;
+
+/**
+ * Decoration types shared by all documents: one band or rail per color, one gutter type
+ * per distinct gutter icon and the focus mode's fading. Functions of the same color
+ * reuse a type, so updating a document only changes the ranges of its types instead of
+ * creating new ones. Types that no document uses any more are disposed by prune().
+ */
+export class DecorationPool implements vscode.Disposable {
+    private types: Map<string, vscode.TextEditorDecorationType> = new Map();
+
+    constructor(private iconCache: IconCache) {}
+
+    /**
+     * Type of the semi-transparent band behind a function, with its color in the overview ruler
+     */
+    getBandType(color: string, bandColor: string): vscode.TextEditorDecorationType {
+        return this.getType(`band:${bandColor}`, () => vscode.window.createTextEditorDecorationType({
+            isWholeLine: true,
+            // Very wide left/right borders create a full-width color overlay with transparency
+            borderWidth: `0 ${BAND_BORDER_WIDTH}px 0 ${BAND_BORDER_WIDTH}px`, // top right bottom left
+            borderStyle: 'solid',
+            borderColor: bandColor,
+            overviewRulerColor: color + 'FF', // Bright, fully opaque in minimap
+            overviewRulerLane: vscode.OverviewRulerLane.Full
+        }));
+    }
+
+    /**
+     * Type of an accent rail on the left edge of a function's lines, for the rail highlight style
+     */
+    getRailType(color: string): vscode.TextEditorDecorationType {
+        return this.getType(`rail:${color}`, () => vscode.window.createTextEditorDecorationType({
+            isWholeLine: true,
+            borderWidth: `0 0 0 ${RAIL_WIDTH}px`, // top right bottom left
+            borderStyle: 'solid',
+            borderColor: color,
+            overviewRulerColor: color + 'FF',
+            overviewRulerLane: vscode.OverviewRulerLane.Full
+        }));
+    }
+
+    /**
+     * Type that fades text, for the focus mode
+     */
+    getDimType(opacity: number): vscode.TextEditorDecorationType {
+        return this.getType(`dim:${opacity}`, () => vscode.window.createTextEditorDecorationType({
+            opacity: String(opacity)
+        }));
+    }
+
+    /**
+     * Type of the gutter markers of a line, with the innermost function's color in the overview ruler
+     */
+    getGutterType(cell: GutterCell, options: GutterOptions): vscode.TextEditorDecorationType {
+        const key = getGutterCellKey(cell, options);
+        const color = cell.segments[cell.segments.length - 1].color;
+        return this.getType(`gutter:${key}`, () => vscode.window.createTextEditorDecorationType({
+            gutterIconPath: this.iconCache.getIcon(`gutter-${key}`, () => toSvgFile(renderGutterIcon(cell, options))),
+            gutterIconSize: 'contain',
+            overviewRulerColor: color + 'FF',
+            overviewRulerLane: vscode.OverviewRulerLane.Left
+        }));
+    }
+
+    /**
+     * Dispose the types that are not in use
+     */
+    prune(inUse: Set<vscode.TextEditorDecorationType>): void {
+        this.types.forEach((type, key) => {
+            if (!inUse.has(type)) {
+                type.dispose();
+                this.types.delete(key);
+            }
+        });
+    }
+
+    dispose(): void {
+        this.types.forEach(type => type.dispose());
+        this.types.clear();
+    }
+
+    private getType(key: string, create: () => vscode.TextEditorDecorationType): vscode.TextEditorDecorationType {
+        let type = this.types.get(key);
+        if (!type) {
+            type = create();
+            this.types.set(key, type);
+        }
+        return type;
+    }
+}
@@ -0,0 +1,21 @@
+import * as vscode from 'vscode';
+import { FunctionInfo } from './parser';
+
+/**
+ * Read the extension's settings for a document, so language-specific overrides apply
+ */
+export function getDocumentConfig(document: vscode.TextDocument): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration('functionHighlight', document);
+}
+
+/**
+ * The declaration and last line of a function within a document. Providers use the
+ * functions last parsed for the document, which may be a few edits behind it, so the
+ * end is clamped to the document and functions starting past its end are left out.
+ */
+export function getFunctionLines(document: vscode.TextDocument, func: FunctionInfo): { declarationLine: number, endLine: number } | undefined {
+    if (func.declarationLine >= document.lineCount) {
+        return undefined;
+    }
+    return { declarationLine: func.declarationLine, endLine: Math.min(func.endLine, document.lineCount - 1) };
+}
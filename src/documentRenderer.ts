@@ -0,0 +1,192 @@
+import { CppParser, FunctionInfo } from './parser';
+import { EDITOR_COLORS } from './colorCalculator';
+import { getGutterCells, GutterIcon, GutterOptions, renderGutterIcon } from './gutterRenderer';
+
+export type RenderFormat = 'html' | 'svg';
+
+export interface RenderOptions {
+    title: string; // Page title and legend heading, usually the file name
+    theme: 'dark' | 'light';
+    opacity: number; // Opacity of the function bands, as in the editor
+    tabSize: number;
+    gutter: GutterOptions; // Gutter marker settings, as in the editor
+}
+
+// What is drawn on one line of the document
+interface LineStyle {
+    band?: string; // Color of the innermost function band
+    marker?: GutterIcon;
+}
+
+// Layout of the SVG rendering, in pixels
+const LINE_HEIGHT = 18;
+const FONT_SIZE = 13;
+const CHAR_WIDTH = 7.8; // Advance of a monospace character at FONT_SIZE
+const GUTTER_WIDTH = 18;
+const PADDING = 12;
+
+/**
+ * Render a document with its function bands, gutter markers and a legend of its
+ * functions as a self-contained HTML page or SVG image
+ */
+export function renderDocument(lines: string[], functions: FunctionInfo[], colors: string[], format: RenderFormat, options: RenderOptions): string {
+    const expanded = lines.map(line => expandTabs(line, options.tabSize));
+    const styles = getLineStyles(lines.length, functions, colors, options.gutter);
+    return format === 'html'
+        ? renderHtml(expanded, styles, functions, colors, options)
+        : renderSvg(expanded, styles, functions, colors, options);
+}
+
+/**
+ * Work out the band and gutter marker of each line the way the editor draws them:
+ * nested functions are layered on top of their parent's band and draw their own markers
+ */
+function getLineStyles(lineCount: number, functions: FunctionInfo[], colors: string[], gutter: GutterOptions): LineStyle[] {
+    const styles: LineStyle[] = Array.from({ length: lineCount }, () => ({}));
+
+    // Functions are listed parents-first, so nested functions overwrite their parent
+    functions.forEach((func, index) => {
+        CppParser.getExclusiveRanges(func).forEach(range => {
+            for (let line = Math.max(range.startLine, 0); line <= Math.min(range.endLine, lineCount - 1); line++) {
+                styles[line].band = colors[index];
+            }
+        });
+    });
+
+    getGutterCells(lineCount, functions, colors, gutter).forEach((cell, line) => {
+        if (cell) {
+            styles[line].marker = renderGutterIcon(cell, gutter);
+        }
+    });
+
+    return styles;
+}
+
+function renderHtml(lines: string[], styles: LineStyle[], functions: FunctionInfo[], colors: string[], options: RenderOptions): string {
+    const editorColors = EDITOR_COLORS[options.theme];
+    const numberWidth = String(lines.length).length;
+    const gutterWidth = getGutterWidth(styles);
+
+    const codeLines = lines.map((line, index) => {
+        const lineStyle = styles[index];
+        const background = lineStyle.band ? ` style="background-color: ${toRgba(lineStyle.band, options.opacity)}"` : '';
+        const marker = lineStyle.marker
+            ? `<svg class="marker" width="${scaleIcon(lineStyle.marker.width)}" height="${LINE_HEIGHT}" viewBox="0 0 ${lineStyle.marker.width} 20">${lineStyle.marker.shapes}</svg>`
+            : '';
+        // Lines are blocks, so text between them inside <pre> would render as blank lines
+        return `<div class="line"${background}><span class="gutter">${marker}</span><span class="number">${String(index + 1).padStart(numberWidth)}</span>${escapeXml(line) || ' '}</div>`;
+    });
+
+    const legend = functions.map((func, index) =>
+        `<li><span class="swatch" style="background-color: ${colors[index]}"></span>${escapeXml(CppParser.getQualifiedName(func))} <span class="lines">${describeLines(func)}</span></li>`
+    );
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(options.title)}</title>
+<style>
+body { margin: 0; padding: ${PADDING}px; background: ${editorColors.background}; color: ${editorColors.foreground}; font-family: sans-serif; }
+pre { margin: 0; font-family: Menlo, Consolas, "DejaVu Sans Mono", monospace; font-size: ${FONT_SIZE}px; line-height: ${LINE_HEIGHT}px; }
+.line { white-space: pre; }
+.gutter { display: inline-block; width: ${gutterWidth}px; height: ${LINE_HEIGHT}px; vertical-align: top; }
+.number { opacity: 0.5; margin-right: 16px; }
+h2 { font-size: 14px; margin: 24px 0 8px; }
+ul { list-style: none; margin: 0; padding: 0; font-size: 13px; }
+li { margin: 4px 0; }
+.swatch { display: inline-block; width: 12px; height: 12px; margin-right: 8px; border-radius: 2px; vertical-align: middle; }
+.lines { opacity: 0.6; }
+</style>
+</head>
+<body>
+<pre>${codeLines.join('')}</pre>
+<h2>Functions in ${escapeXml(options.title)}</h2>
+<ul>
+${legend.join('\n')}
+</ul>
+</body>
+</html>
+`;
+}
+
+function renderSvg(lines: string[], styles: LineStyle[], functions: FunctionInfo[], colors: string[], options: RenderOptions): string {
+    const editorColors = EDITOR_COLORS[options.theme];
+    const numberWidth = String(lines.length).length;
+    const gutterWidth = getGutterWidth(styles);
+    const textX = PADDING + gutterWidth + (numberWidth + 2) * CHAR_WIDTH;
+    const longestLine = Math.max(0, ...lines.map(line => line.length));
+    const legendWidth = Math.max(0, ...functions.map(func => CppParser.getQualifiedName(func).length + describeLines(func).length + 1)) * CHAR_WIDTH + 20;
+    const width = Math.ceil(Math.max(textX + longestLine * CHAR_WIDTH, PADDING + legendWidth) + PADDING);
+
+    const codeTop = PADDING;
+    const legendTop = codeTop + lines.length * LINE_HEIGHT + 24;
+    const height = legendTop + (functions.length + 1) * LINE_HEIGHT + PADDING;
+
+    const elements: string[] = [];
+    lines.forEach((line, index) => {
+        const y = codeTop + index * LINE_HEIGHT;
+        const lineStyle = styles[index];
+        if (lineStyle.band) {
+            elements.push(`<rect x="0" y="${y}" width="${width}" height="${LINE_HEIGHT}" fill="${lineStyle.band}" fill-opacity="${options.opacity}" />`);
+        }
+        if (lineStyle.marker) {
+            elements.push(`<svg x="${PADDING}" y="${y}" width="${scaleIcon(lineStyle.marker.width)}" height="${LINE_HEIGHT}" viewBox="0 0 ${lineStyle.marker.width} 20">${lineStyle.marker.shapes}</svg>`);
+        }
+        const baseline = y + LINE_HEIGHT - 5;
+        elements.push(`<text x="${PADDING + gutterWidth}" y="${baseline}" class="number">${String(index + 1).padStart(numberWidth)}</text>`);
+        if (line.length > 0) {
+            elements.push(`<text x="${textX}" y="${baseline}">${escapeXml(line)}</text>`);
+        }
+    });
+
+    elements.push(`<text x="${PADDING}" y="${legendTop + LINE_HEIGHT - 5}" class="heading">Functions in ${escapeXml(options.title)}</text>`);
+    functions.forEach((func, index) => {
+        const y = legendTop + (index + 1) * LINE_HEIGHT;
+        elements.push(`<rect x="${PADDING}" y="${y + 3}" width="12" height="12" rx="2" fill="${colors[index]}" />`);
+        elements.push(`<text x="${PADDING + 20}" y="${y + LINE_HEIGHT - 5}">${escapeXml(CppParser.getQualifiedName(func))} <tspan class="number">${describeLines(func)}</tspan></text>`);
+    });
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" xml:space="preserve" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<title>${escapeXml(options.title)}</title>
+<style>
+text { font-family: Menlo, Consolas, "DejaVu Sans Mono", monospace; font-size: ${FONT_SIZE}px; fill: ${editorColors.foreground}; white-space: pre; }
+.number { fill-opacity: 0.5; }
+.heading { font-weight: bold; }
+</style>
+<rect x="0" y="0" width="${width}" height="${height}" fill="${editorColors.background}" />
+${elements.join('\n')}
+</svg>
+`;
+}
+
+function getGutterWidth(styles: LineStyle[]): number {
+    // Nesting rails make some icons wider than the default gutter
+    return styles.reduce((width, style) => style.marker ? Math.max(width, scaleIcon(style.marker.width)) : width, GUTTER_WIDTH);
+}
+
+function scaleIcon(width: number): number {
+    // Icons are 20 units high and drawn at the line height
+    return Math.round(width * LINE_HEIGHT / 20 * 10) / 10;
+}
+
+function describeLines(func: FunctionInfo): string {
+    return `(lines ${func.declarationLine + 1}-${func.endLine + 1})`;
+}
+
+function expandTabs(line: string, tabSize: number): string {
+    let expanded = '';
+    for (const char of line) {
+        expanded += char === '\t' ? ' '.repeat(tabSize - (expanded.length % tabSize)) : char;
+    }
+    return expanded;
+}
+
+function toRgba(color: string, opacity: number): string {
+    const value = parseInt(color.substring(1), 16);
+    return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${opacity})`;
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -1,27 +1,106 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
-import { CppParser, FunctionInfo } from './parser';
-import { ColorCalculator, ColorConfig } from './colorCalculator';
-import { FunctionTreeProvider } from './functionTreeProvider';
-
-let parser: CppParser;
+import { CppParser, CustomGrammar, FunctionInfo, TextEdit } from './parser';
+import { BackgroundParser, ParseResult } from './backgroundParser';
+import { ColorAssignment, ColorCalculator, ColorMode, FunctionColors } from './colorCalculator';
+import { applyPaletteSettings, getColorConfig } from './colorSettings';
+import { ClassTreeItem, DEFAULT_VIEW_OPTIONS, FunctionSortOrder, FunctionsViewMode, FunctionsViewOptions, FunctionTreeItem, FunctionTreeProvider, TreeElement } from './functionTreeProvider';
+import { CurrentFunctionStatusBar, findFunctionAt } from './currentFunction';
+import { FunctionCodeLensProvider } from './functionCodeLens';
+import { FunctionFoldingRangeProvider, getClassFoldLines, getFoldLinesExcept } from './functionFolding';
+import { FunctionSymbolProvider } from './functionSymbols';
+import { findNextFunction, findNextFunctionWithColor, findPreviousFunction, getSelectionSpans, LineSpan } from './functionNavigation';
+import { ExportedFile, ExportFormat, formatFunctionReport } from './functionExport';
+import { RenderFormat, renderDocument } from './documentRenderer';
+import { FunctionIndex, IndexedFile } from './functionIndex';
+import { DecorationPool } from './decorationPool';
+import { DEFAULT_GUTTER_OPTIONS, getGutterCells, GutterOptions, GutterStyle } from './gutterRenderer';
+import { IconCache } from './iconCache';
+import { FunctionHistory, GitHistory } from './gitHistory';
+
+let parser: BackgroundParser;
 let colorCalculator: ColorCalculator;
-let decorationCache: Map<string, vscode.TextEditorDecorationType[]> = new Map();
-let extensionContext: vscode.ExtensionContext;
+let gitHistory: GitHistory;
+let functionIndex: FunctionIndex;
+let decorationCache: Map<string, DocumentDecorations> = new Map();
+let decorationPool: DecorationPool;
+let cursorDecorations: Map<vscode.TextEditor, CursorDecorations> = new Map();
+let iconCache: IconCache;
 let functionTreeProvider: FunctionTreeProvider;
+let functionsView: vscode.TreeView<TreeElement>;
+let currentFunctionStatus: CurrentFunctionStatusBar;
+let codeLensProvider: FunctionCodeLensProvider;
+let foldingProvider: FunctionFoldingRangeProvider;
+let lastRevealedFunction: FunctionInfo | undefined;
+let parsedDocuments: Map<string, ParsedDocument> = new Map();
+let parseRequests: Map<string, { version: number, result: Promise<ParseResult> }> = new Map();
+let updateTimers: Map<string, NodeJS.Timeout> = new Map();
+let queryWatchers: vscode.FileSystemWatcher[] = [];
+let reportedLoadErrors: Set<string> = new Set();
+
+// A customGrammars setting entry; paths may be relative to the first workspace folder
+interface CustomGrammarSetting {
+    wasm: string;
+    query?: string;
+    functionTypes?: string[];
+    containerTypes?: string[];
+    extensions?: string[];
+}
+
+// The functions last drawn in a document, with their colors
+interface ParsedDocument {
+    version: number;
+    functions: FunctionInfo[];
+    colors: FunctionColors[];
+    history?: (FunctionHistory | undefined)[];
+}
+
+// Pooled decoration types of a document with the ranges they cover, shared by every
+// editor showing the document so a second pane is decorated without parsing again
+interface DocumentDecorations {
+    version: number; // -1 once settings or colors changed
+    decorations: Map<vscode.TextEditorDecorationType, vscode.Range[]>;
+}
+
+// How functions are highlighted: a full-width band, a rail on the left edge, a band on
+// the declaration line only, or a band on the function at the cursor only
+type HighlightStyle = 'full' | 'rail' | 'header' | 'current';
+
+// Decorations that follow an editor's cursor: the current highlight style and the focus mode
+interface CursorDecorations {
+    functionInfo: FunctionInfo | undefined;
+    decorations: Map<vscode.TextEditorDecorationType, vscode.Range[]>;
+}
+
+// The editor a command acts on, with its functions and the function at the cursor or picked in the view
+interface FunctionTarget {
+    editor: vscode.TextEditor;
+    parsed: ParsedDocument;
+    functionInfo?: FunctionInfo;
+}
+
+// An entry of the workspace function picker
+interface FunctionPickItem extends vscode.QuickPickItem {
+    functionInfo: FunctionInfo;
+    uri: vscode.Uri;
+}
+
+// Keys of the Functions view mode and options in the workspace state
+const VIEW_MODE_KEY = 'functionHighlight.viewMode';
+const VIEW_OPTIONS_KEY = 'functionHighlight.viewOptions';
 
 export async function activate(context: vscode.ExtensionContext) {
     console.log('Function Highlight extension is now active');
     vscode.window.showInformationMessage('Function Highlight extension activated!');
 
-    // Store context for later use
-    extensionContext = context;
-
     // Initialize parser and color calculator
-    parser = new CppParser();
+    parser = new BackgroundParser();
     colorCalculator = new ColorCalculator();
-    functionTreeProvider = new FunctionTreeProvider(colorCalculator, context);
+    gitHistory = new GitHistory();
+    iconCache = new IconCache(context.globalStorageUri);
+    decorationPool = new DecorationPool(iconCache);
+    functionIndex = new FunctionIndex(parser, context.storageUri, context.extension.packageJSON.version);
+    functionTreeProvider = new FunctionTreeProvider(colorCalculator, context, functionIndex, iconCache, gitHistory);
 
     try {
         console.log('Initializing parser...');
@@ -33,28 +112,285 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.window.showErrorMessage(errorMsg);
         return;
     }
+    context.subscriptions.push({ dispose: () => parser.dispose() });
+
+    // Load palette settings, user grammars and user function queries before the first decoration
+    applyColorSettings();
+    configureCustomGrammars();
+    configureQueryOverrides();
+    context.subscriptions.push({ dispose: () => queryWatchers.forEach(watcher => watcher.dispose()) });
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            configureCustomGrammars();
+            configureQueryOverrides();
+            gitHistory.clear();
+            redrawVisibleEditors();
+            functionIndex.rescan();
+        })
+    );
+
+    // Folders remembered as not being in a repository may have become one with git init
+    const repositoryWatcher = vscode.workspace.createFileSystemWatcher('**/.git/HEAD', false, true, true);
+    context.subscriptions.push(
+        repositoryWatcher,
+        repositoryWatcher.onDidCreate(() => {
+            gitHistory.clear();
+            redrawVisibleEditors();
+        })
+    );
+
+    // Index the workspace's functions in the background
+    context.subscriptions.push(functionIndex);
+    functionIndex.start();
 
     // Register tree view
     const treeView = vscode.window.createTreeView('functionHighlight.functionsView', {
         treeDataProvider: functionTreeProvider,
         showCollapseAll: false
     });
+    functionsView = treeView;
     context.subscriptions.push(treeView);
 
+    // Show the function at the cursor in the status bar
+    currentFunctionStatus = new CurrentFunctionStatusBar('functionHighlight.goToFunctionInFile');
+    context.subscriptions.push(currentFunctionStatus);
+
+    // Size and navigation lenses above each function
+    codeLensProvider = new FunctionCodeLensProvider(document => {
+        const parsed = parsedDocuments.get(document.uri.toString());
+        return parsed ? parsed.functions : undefined;
+    });
+    context.subscriptions.push(
+        codeLensProvider,
+        vscode.languages.registerCodeLensProvider([{ scheme: 'file' }, { scheme: 'untitled' }], codeLensProvider)
+    );
+
+    // Fold functions by their parsed ranges
+    foldingProvider = new FunctionFoldingRangeProvider(document => {
+        const parsed = parsedDocuments.get(document.uri.toString());
+        return parsed ? parsed.functions : undefined;
+    });
+    foldingProvider.register(getGrammarLanguageIds());
+    context.subscriptions.push(foldingProvider);
+
+    // Outline and breadcrumbs for languages that opt in; the document may not be parsed yet
+    const symbolProvider = new FunctionSymbolProvider(async document => {
+        const parsed = parsedDocuments.get(document.uri.toString());
+        if (parsed && parsed.version === document.version) {
+            return parsed.functions;
+        }
+        const result = await parseDocument(document);
+        return result.supported && !result.cancelled ? result.functions : undefined;
+    });
+    context.subscriptions.push(
+        vscode.languages.registerDocumentSymbolProvider([{ scheme: 'file' }, { scheme: 'untitled' }], symbolProvider, { label: 'Function Highlight' })
+    );
+
+    // Restore the view mode of the last session
+    const setViewMode = (mode: FunctionsViewMode) => {
+        functionTreeProvider.setMode(mode);
+        treeView.description = mode === 'workspace' ? 'Workspace' : undefined;
+        context.workspaceState.update(VIEW_MODE_KEY, mode);
+        vscode.commands.executeCommand('setContext', 'functionHighlight.workspaceMode', mode === 'workspace');
+    };
+    setViewMode(context.workspaceState.get<FunctionsViewMode>(VIEW_MODE_KEY, 'document'));
+
+    // Restore the sorting, filtering and grouping of the last session
+    const setViewOptions = (options: Partial<FunctionsViewOptions>) => {
+        functionTreeProvider.setOptions(options);
+        const current = functionTreeProvider.getOptions();
+        treeView.message = describeViewFilter(current);
+        context.workspaceState.update(VIEW_OPTIONS_KEY, current);
+        vscode.commands.executeCommand('setContext', 'functionHighlight.flatList', !current.grouped);
+        vscode.commands.executeCommand('setContext', 'functionHighlight.filtered', current.filterText.length > 0 || current.minLines > 0);
+    };
+    setViewOptions({ ...DEFAULT_VIEW_OPTIONS, ...context.workspaceState.get<Partial<FunctionsViewOptions>>(VIEW_OPTIONS_KEY, {}) });
+
     // Register commands
     context.subscriptions.push(
         vscode.commands.registerCommand('functionHighlight.goToFunction',
-            (functionInfo: FunctionInfo, document: vscode.TextDocument) => {
-                goToFunction(functionInfo, document);
+            (functionInfo: FunctionInfo, target: vscode.TextDocument | vscode.Uri) => {
+                goToFunction(functionInfo, target);
+            }
+        )
+    );
+
+    context.subscriptions.push(
+        // Without arguments (e.g. from a keybinding) these act on the function at the cursor
+        vscode.commands.registerCommand('functionHighlight.goToFunctionStart',
+            async (functionInfo?: FunctionInfo, document?: vscode.TextDocument) => {
+                await goToFunctionEdge('start', functionInfo, document);
+            }
+        ),
+        vscode.commands.registerCommand('functionHighlight.goToFunctionEnd',
+            async (functionInfo?: FunctionInfo, document?: vscode.TextDocument) => {
+                await goToFunctionEdge('end', functionInfo, document);
+            }
+        ),
+        vscode.commands.registerCommand('functionHighlight.selectFunction',
+            async (functionInfo?: FunctionInfo, document?: vscode.TextDocument) => {
+                if (functionInfo && document) {
+                    const editor = await vscode.window.showTextDocument(document);
+                    const end = editor.document.lineAt(Math.min(functionInfo.endLine, editor.document.lineCount - 1)).range.end;
+                    editor.selection = new vscode.Selection(new vscode.Position(functionInfo.declarationLine, 0), end);
+                    return;
+                }
+                await expandFunctionSelection();
+            }
+        ),
+        vscode.commands.registerCommand('functionHighlight.nextFunction', async () => {
+            await goToNearbyFunction(target => findNextFunction(target.parsed.functions, target.editor.selection.active.line), 'no next function');
+        }),
+        vscode.commands.registerCommand('functionHighlight.previousFunction', async () => {
+            await goToNearbyFunction(target => findPreviousFunction(target.parsed.functions, target.editor.selection.active.line), 'no previous function');
+        }),
+        vscode.commands.registerCommand('functionHighlight.nextFunctionWithSameColor', async () => {
+            await goToNearbyFunction(target => target.functionInfo && findNextFunctionWithColor(
+                target.parsed.functions,
+                target.parsed.colors.map(colors => colors.border),
+                target.functionInfo
+            ), 'no other function with this color');
+        }),
+        vscode.commands.registerCommand('functionHighlight.revealFunction',
+            async (functionInfo: FunctionInfo, document: vscode.TextDocument) => {
+                const item = functionTreeProvider.getFunctionItem(document.uri, functionInfo);
+                if (!item) {
+                    vscode.window.showInformationMessage(`Function Highlight: ${functionInfo.name} is hidden by the Functions view filter`);
+                    return;
+                }
+                await functionsView.reveal(item, { select: true, focus: true, expand: true });
             }
         )
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('functionHighlight.foldOtherFunctions', async (item?: FunctionTreeItem) => {
+            const target = await getFunctionTarget(item);
+            if (target) {
+                await vscode.commands.executeCommand('editor.fold', {
+                    selectionLines: getFoldLinesExcept(target.parsed.functions, target.functionInfo),
+                    levels: 1
+                });
+            }
+        }),
+        vscode.commands.registerCommand('functionHighlight.foldClassFunctions', async (item?: FunctionTreeItem | ClassTreeItem) => {
+            const target = await getFunctionTarget(item);
+            const className = item instanceof ClassTreeItem ? item.className : target && target.functionInfo && target.functionInfo.className;
+            if (!target || !className) {
+                vscode.window.showInformationMessage('Function Highlight: the cursor is not in a function of a class');
+                return;
+            }
+            await vscode.commands.executeCommand('editor.fold', { selectionLines: getClassFoldLines(target.parsed.functions, className), levels: 1 });
+        }),
+        vscode.commands.registerCommand('functionHighlight.unfoldFunction', async (item?: FunctionTreeItem) => {
+            const target = await getFunctionTarget(item);
+            if (!target || !target.functionInfo) {
+                vscode.window.showInformationMessage('Function Highlight: the cursor is not in a function');
+                return;
+            }
+            // Nested functions and blocks folded inside the function open as well
+            await vscode.commands.executeCommand('editor.unfold', {
+                selectionLines: [target.functionInfo.declarationLine],
+                levels: Number.MAX_SAFE_INTEGER
+            });
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('functionHighlight.exportFunctions', () => {
+            exportFunctions('file');
+        }),
+        vscode.commands.registerCommand('functionHighlight.exportWorkspaceFunctions', () => {
+            exportFunctions('workspace');
+        }),
+        vscode.commands.registerCommand('functionHighlight.exportHighlightedDocument', () => {
+            exportHighlightedDocument();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('functionHighlight.goToFunctionInWorkspace', () => {
+            showWorkspaceFunctionPicker();
+        }),
+        vscode.commands.registerCommand('functionHighlight.goToFunctionInFile', () => {
+            showFileFunctionPicker();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('functionHighlight.showWorkspaceFunctions', () => {
+            setViewMode('workspace');
+        }),
+        vscode.commands.registerCommand('functionHighlight.showDocumentFunctions', () => {
+            setViewMode('document');
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('functionHighlight.sortFunctions', async () => {
+            const current = functionTreeProvider.getOptions().sortOrder;
+            const orders: { label: string, sortOrder: FunctionSortOrder }[] = [
+                { label: 'Position', sortOrder: 'position' },
+                { label: 'Name', sortOrder: 'name' },
+                { label: 'Length (longest first)', sortOrder: 'length' }
+            ];
+            const picked = await vscode.window.showQuickPick(
+                orders.map(order => ({ ...order, description: order.sortOrder === current ? 'current' : undefined })),
+                { placeHolder: 'Sort functions by' }
+            );
+            if (picked) {
+                setViewOptions({ sortOrder: picked.sortOrder });
+            }
+        }),
+        vscode.commands.registerCommand('functionHighlight.filterFunctions', () => {
+            // Narrow the tree while typing; the filter stays when the box is closed
+            const inputBox = vscode.window.createInputBox();
+            inputBox.placeholder = 'Filter functions by name, class or enclosing function';
+            inputBox.value = functionTreeProvider.getOptions().filterText;
+            inputBox.onDidChangeValue(value => setViewOptions({ filterText: value.trim() }));
+            inputBox.onDidAccept(() => inputBox.hide());
+            inputBox.onDidHide(() => inputBox.dispose());
+            inputBox.show();
+        }),
+        vscode.commands.registerCommand('functionHighlight.setMinimumLines', async () => {
+            const value = await vscode.window.showInputBox({
+                prompt: 'Show only functions longer than this many lines (0 shows all)',
+                value: String(functionTreeProvider.getOptions().minLines),
+                validateInput: input => /^\d+$/.test(input.trim()) ? undefined : 'Enter a whole number of lines'
+            });
+            if (value !== undefined) {
+                setViewOptions({ minLines: parseInt(value.trim(), 10) });
+            }
+        }),
+        vscode.commands.registerCommand('functionHighlight.clearFunctionFilter', () => {
+            setViewOptions({ filterText: '', minLines: 0 });
+        }),
+        vscode.commands.registerCommand('functionHighlight.showFlatList', () => {
+            setViewOptions({ grouped: false });
+        }),
+        vscode.commands.registerCommand('functionHighlight.groupByContainer', () => {
+            setViewOptions({ grouped: true });
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('functionHighlight.toggleFocusMode', () => {
+            // Toggle where the setting is defined, so a workspace value does not override the toggle
+            const config = vscode.workspace.getConfiguration('functionHighlight');
+            const inspected = config.inspect<boolean>('focusMode');
+            const target = inspected && inspected.workspaceValue !== undefined
+                ? vscode.ConfigurationTarget.Workspace
+                : vscode.ConfigurationTarget.Global;
+            config.update('focusMode', !config.get<boolean>('focusMode', false), target);
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('functionHighlight.refreshFunctions', () => {
             const editor = vscode.window.activeTextEditor;
             if (editor) {
-                updateDecorations(editor);
+                invalidateDecorations(editor.document.uri.toString());
+                updateDecorations(editor.document);
             }
         })
     );
@@ -62,74 +398,694 @@ export async function activate(context: vscode.ExtensionContext) {
     // Update decorations when active editor changes
     context.subscriptions.push(
         vscode.window.onDidChangeActiveTextEditor(editor => {
+            updateCurrentFunction(editor);
             if (editor) {
-                updateDecorations(editor);
+                updateDecorations(editor.document);
             }
         })
     );
 
+    // Decorate editors as they become visible, e.g. split panes and diff editors
+    context.subscriptions.push(
+        vscode.window.onDidChangeVisibleTextEditors(editors => {
+            // Hidden editors are disposed by VS Code along with their decorations
+            Array.from(cursorDecorations.keys()).filter(editor => !editors.includes(editor)).forEach(editor => cursorDecorations.delete(editor));
+            refreshVisibleEditors();
+        })
+    );
+
+    // Follow the cursor in the status bar and, optionally, the Functions view
+    context.subscriptions.push(
+        vscode.window.onDidChangeTextEditorSelection(event => {
+            if (event.textEditor === vscode.window.activeTextEditor) {
+                updateCurrentFunction(event.textEditor);
+            }
+            updateCursorDecorations(event.textEditor);
+        })
+    );
+
     // Update decorations when document changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeTextDocument(event => {
-            const editor = vscode.window.activeTextEditor;
-            if (editor && event.document === editor.document) {
-                updateDecorations(editor);
+            // Keep the parser's syntax tree in sync so the next parse is incremental
+            const documentKey = event.document.uri.toString();
+            event.contentChanges.forEach(change => {
+                parser.applyEdit(documentKey, toTextEdit(change));
+            });
+
+            if (vscode.window.visibleTextEditors.some(editor => editor.document === event.document)) {
+                scheduleUpdateDecorations(event.document);
             }
         })
     );
 
+    // Regenerate colors for the new theme kind
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveColorTheme(() => {
+            applyColorSettings();
+            redrawVisibleEditors();
+        })
+    );
+
+    // Drop the cached syntax tree when a document is closed
+    context.subscriptions.push(
+        vscode.workspace.onDidCloseTextDocument(document => {
+            cancelScheduledUpdate(document.uri.toString());
+            parser.releaseDocument(document.uri.toString());
+            parsedDocuments.delete(document.uri.toString());
+            parseRequests.delete(document.uri.toString());
+            clearDecorations(document.uri.toString());
+        })
+    );
+
     // Update decorations when configuration changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration(event => {
             if (event.affectsConfiguration('functionHighlight')) {
-                const editor = vscode.window.activeTextEditor;
-                if (editor) {
-                    // Clear old decorations
-                    clearDecorations(editor.document.uri.toString());
-                    updateDecorations(editor);
+                // Only palette changes re-check the colors, so other settings do not repeat the warning
+                if (['palette', 'customPalette', 'opacity'].some(key => event.affectsConfiguration(`functionHighlight.${key}`))) {
+                    applyColorSettings();
+                }
+                if (event.affectsConfiguration('functionHighlight.customGrammars')) {
+                    configureCustomGrammars();
+                    foldingProvider.register(getGrammarLanguageIds());
                 }
+                if (event.affectsConfiguration('functionHighlight.queriesPath')) {
+                    configureQueryOverrides();
+                }
+                if (event.affectsConfiguration('functionHighlight.customGrammars') || event.affectsConfiguration('functionHighlight.queriesPath')) {
+                    functionIndex.reindexAll();
+                } else if (event.affectsConfiguration('functionHighlight.index')) {
+                    functionIndex.rescan();
+                }
+                // Colors of the workspace listing depend on the color settings
+                functionTreeProvider.refresh();
+                redrawVisibleEditors();
+                updateCurrentFunction(vscode.window.activeTextEditor);
+                codeLensProvider.refresh();
+                foldingProvider.refresh();
+            } else if (event.affectsConfiguration('files.exclude')) {
+                functionIndex.rescan();
             }
         })
     );
 
     // Initial decoration
-    if (vscode.window.activeTextEditor) {
-        updateDecorations(vscode.window.activeTextEditor);
+    refreshVisibleEditors();
+}
+
+async function goToFunction(functionInfo: FunctionInfo, target: vscode.TextDocument | vscode.Uri, edge: 'start' | 'end' = 'start'): Promise<void> {
+    // Open the document and reveal the function declaration line, or the end of its last line
+    const document = target instanceof vscode.Uri ? await vscode.workspace.openTextDocument(target) : target;
+    const editor = await vscode.window.showTextDocument(document);
+    const position = edge === 'start'
+        ? new vscode.Position(functionInfo.declarationLine, 0)
+        : document.lineAt(Math.min(functionInfo.endLine, document.lineCount - 1)).range.end;
+    const range = new vscode.Range(position, position);
+
+    // Reveal and select the line
+    editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
+    editor.selection = new vscode.Selection(position, position);
+}
+
+async function goToFunctionEdge(edge: 'start' | 'end', functionInfo?: FunctionInfo, document?: vscode.TextDocument): Promise<void> {
+    if (functionInfo && document) {
+        await goToFunction(functionInfo, document, edge);
+        return;
+    }
+    const target = await getFunctionTarget();
+    if (!target || !target.functionInfo) {
+        vscode.window.setStatusBarMessage('Function Highlight: the cursor is not in a function', 3000);
+        return;
+    }
+    await goToFunction(target.functionInfo, target.editor.document, edge);
+}
+
+async function goToNearbyFunction(find: (target: FunctionTarget) => FunctionInfo | undefined, notFound: string): Promise<void> {
+    const target = await getFunctionTarget();
+    const func = target ? find(target) : undefined;
+    if (!target || !func) {
+        // Keyboard navigation reports in the status bar rather than with a notification
+        vscode.window.setStatusBarMessage(`Function Highlight: ${notFound}`, 3000);
+        return;
+    }
+    await goToFunction(func, target.editor.document);
+}
+
+async function expandFunctionSelection(): Promise<void> {
+    // Select the innermost function around the selection; repeating grows it to the
+    // enclosing function, then to the class or namespace
+    const target = await getFunctionTarget();
+    if (!target) {
+        return;
+    }
+    const editor = target.editor;
+    const document = editor.document;
+    const toRange = (span: LineSpan) => {
+        const endLine = Math.min(span.endLine, document.lineCount - 1);
+        return new vscode.Range(span.startLine, 0, endLine, document.lineAt(endLine).range.end.character);
+    };
+
+    const range = getSelectionSpans(target.parsed.functions)
+        .map(toRange)
+        .find(candidate => candidate.contains(editor.selection) && !candidate.isEqual(editor.selection));
+    if (!range) {
+        vscode.window.setStatusBarMessage('Function Highlight: no enclosing function to select', 3000);
+        return;
+    }
+    editor.selection = new vscode.Selection(range.start, range.end);
+    editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+function forgetFunctions(document: vscode.TextDocument) {
+    parsedDocuments.delete(document.uri.toString());
+    updateCurrentFunction(vscode.window.activeTextEditor);
+    codeLensProvider.refresh();
+    foldingProvider.refresh();
+}
+
+function updateCurrentFunction(editor: vscode.TextEditor | undefined) {
+    const config = vscode.workspace.getConfiguration('functionHighlight');
+    const parsed = editor ? parsedDocuments.get(editor.document.uri.toString()) : undefined;
+    const line = editor ? editor.selection.active.line : 0;
+    const func = parsed ? findFunctionAt(parsed.functions, line) : undefined;
+
+    if (parsed && func && config.get<boolean>('statusBar', true)) {
+        currentFunctionStatus.show(func, parsed.colors[parsed.functions.indexOf(func)].border, line);
+    } else {
+        currentFunctionStatus.hide();
+    }
+
+    // Select the function in the Functions view once the cursor enters it
+    if (editor && func && func !== lastRevealedFunction && functionsView.visible && config.get<boolean>('followCursor', false)) {
+        const item = functionTreeProvider.getFunctionItem(editor.document.uri, func);
+        if (item) {
+            functionsView.reveal(item, { select: true, focus: false, expand: true }).then(undefined, error => {
+                console.error('Error revealing function:', error);
+            });
+        }
+    }
+    lastRevealedFunction = func;
+}
+
+async function getFunctionTarget(item?: FunctionTreeItem | ClassTreeItem): Promise<FunctionTarget | undefined> {
+    // Commands act on the active editor and the function at its cursor; tree items first open their file
+    let editor = vscode.window.activeTextEditor;
+    if (item) {
+        editor = await vscode.window.showTextDocument(item.file.document || await vscode.workspace.openTextDocument(item.file.uri));
+        await updateDecorations(editor.document);
+    }
+    const parsed = editor ? parsedDocuments.get(editor.document.uri.toString()) : undefined;
+    if (!editor || !parsed) {
+        vscode.window.showInformationMessage('Function Highlight: no functions found in this file');
+        return undefined;
+    }
+
+    // Workspace listings come from the index, so their functions are matched by position
+    const selected = item instanceof FunctionTreeItem ? item.functionInfo : undefined;
+    const functionInfo = selected
+        ? parsed.functions.find(func => func.declarationLine === selected.declarationLine && func.name === selected.name)
+        : item ? undefined : findFunctionAt(parsed.functions, editor.selection.active.line);
+    return { editor, parsed, functionInfo };
+}
+
+function showFileFunctionPicker() {
+    // Pick one of the active document's functions, starting at the one under the cursor
+    const editor = vscode.window.activeTextEditor;
+    const parsed = editor ? parsedDocuments.get(editor.document.uri.toString()) : undefined;
+    if (!editor || !parsed || parsed.functions.length === 0) {
+        vscode.window.showInformationMessage('Function Highlight: no functions found in this file');
+        return;
+    }
+
+    const document = editor.document;
+    const items: FunctionPickItem[] = parsed.functions.map((func, index) => ({
+        label: CppParser.getQualifiedName(func),
+        description: `line ${func.declarationLine + 1}, ${func.lineCount} lines`,
+        iconPath: createSwatchIcon(parsed.colors[index].border),
+        functionInfo: func,
+        uri: document.uri
+    }));
+
+    const quickPick = vscode.window.createQuickPick<FunctionPickItem>();
+    quickPick.placeholder = 'Go to function in this file';
+    quickPick.matchOnDescription = true;
+    quickPick.items = items;
+    const current = findFunctionAt(parsed.functions, editor.selection.active.line);
+    if (current) {
+        quickPick.activeItems = [items[parsed.functions.indexOf(current)]];
+    }
+
+    quickPick.onDidAccept(() => {
+        const item = quickPick.selectedItems[0];
+        quickPick.hide();
+        if (item) {
+            goToFunction(item.functionInfo, document);
+        }
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+}
+
+async function exportFunctions(scope: 'file' | 'workspace') {
+    // Collect the functions with the colors they are highlighted with
+    let files: ExportedFile[];
+    if (scope === 'file') {
+        const editor = vscode.window.activeTextEditor;
+        const parsed = editor ? parsedDocuments.get(editor.document.uri.toString()) : undefined;
+        if (!editor || !parsed || parsed.functions.length === 0) {
+            vscode.window.showInformationMessage('Function Highlight: no functions found in this file');
+            return;
+        }
+        files = [{
+            path: vscode.workspace.asRelativePath(editor.document.uri),
+            functions: parsed.functions,
+            colors: parsed.colors.map(colors => colors.border)
+        }];
+    } else {
+        const config = vscode.workspace.getConfiguration('functionHighlight');
+        const colorConfig = getColorConfig();
+        const indexed = functionIndex.getFiles();
+        const histories = await getIndexedHistory(indexed, colorConfig.mode);
+        files = indexed.map((file, index) => ({
+            path: vscode.workspace.asRelativePath(file.uri),
+            functions: file.functions,
+            colors: colorCalculator.getFunctionColors(
+                file.functions,
+                config.get<ColorAssignment>('colorAssignment', 'identity'),
+                colorConfig,
+                isDarkColorTheme(),
+                histories[index]
+            ).map(colors => colors.border)
+        }));
+        if (functionIndex.isIndexing()) {
+            vscode.window.showWarningMessage('Function Highlight: the workspace is still being indexed, so the export may be incomplete');
+        }
+    }
+
+    const formats: { label: string, format: ExportFormat, extension: string, language: string }[] = [
+        { label: 'JSON', format: 'json', extension: 'json', language: 'json' },
+        { label: 'CSV', format: 'csv', extension: 'csv', language: 'plaintext' },
+        { label: 'Markdown table', format: 'markdown', extension: 'md', language: 'markdown' }
+    ];
+    const format = await vscode.window.showQuickPick(formats, { placeHolder: 'Export format' });
+    if (!format) {
+        return;
+    }
+
+    const destination = await vscode.window.showQuickPick(['Open in an untitled editor', 'Save to a file...'], { placeHolder: 'Export to' });
+    if (!destination) {
+        return;
+    }
+
+    const content = formatFunctionReport(files, format.format);
+    if (destination.startsWith('Open')) {
+        const document = await vscode.workspace.openTextDocument({ content, language: format.language });
+        await vscode.window.showTextDocument(document);
+        return;
+    }
+
+    const folders = vscode.workspace.workspaceFolders || [];
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folders.length > 0 ? vscode.Uri.joinPath(folders[0].uri, `functions.${format.extension}`) : undefined,
+        filters: { [format.label]: [format.extension] }
+    });
+    if (target) {
+        await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+        vscode.window.showInformationMessage(`Function Highlight: exported ${files.reduce((count, file) => count + file.functions.length, 0)} functions to ${vscode.workspace.asRelativePath(target)}`);
     }
 }
 
-function goToFunction(functionInfo: FunctionInfo, document: vscode.TextDocument): void {
-    // Open the document and reveal the function declaration line
-    vscode.window.showTextDocument(document).then(editor => {
-        const position = new vscode.Position(functionInfo.declarationLine, 0);
-        const range = new vscode.Range(position, position);
+/**
+ * Read the git history of indexed files for the age and churn color modes. The index
+ * holds the functions of the saved files, so the saved files are blamed.
+ */
+async function getIndexedHistory(files: IndexedFile[], mode: ColorMode): Promise<((FunctionHistory | undefined)[] | undefined)[]> {
+    if (mode !== 'age' && mode !== 'churn') {
+        return files.map(() => undefined);
+    }
 
-        // Reveal and select the line
-        editor.revealRange(range, vscode.TextEditorRevealType.InCenter);
-        editor.selection = new vscode.Selection(position, position);
+    return vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: 'Function Highlight: reading git history' }, async progress => {
+        const histories: ((FunctionHistory | undefined)[] | undefined)[] = [];
+        for (const file of files) {
+            progress.report({ message: vscode.workspace.asRelativePath(file.uri), increment: 100 / files.length });
+            if (file.uri.scheme !== 'file') {
+                histories.push(undefined);
+                continue;
+            }
+            if (mode === 'churn') {
+                await gitHistory.loadChurn(file.uri.fsPath);
+            }
+            histories.push(await gitHistory.getFunctionHistory(file.uri.fsPath, file.functions, mode === 'churn'));
+        }
+        return histories;
     });
 }
 
+async function exportHighlightedDocument() {
+    const editor = vscode.window.activeTextEditor;
+    const parsed = editor ? parsedDocuments.get(editor.document.uri.toString()) : undefined;
+    if (!editor || !parsed) {
+        vscode.window.showInformationMessage('Function Highlight: the active file has no highlighted functions');
+        return;
+    }
+    const document = editor.document;
+    const functions = parsed.functions;
+
+    const format = await vscode.window.showQuickPick(
+        [{ label: 'HTML page', format: 'html' as RenderFormat }, { label: 'SVG image', format: 'svg' as RenderFormat }],
+        { placeHolder: 'Export the highlighted file as' }
+    );
+    if (!format) {
+        return;
+    }
+
+    // Offer the variant of the current theme kind first
+    const themes = [{ label: 'Dark', theme: 'dark' as const }, { label: 'Light', theme: 'light' as const }];
+    const theme = await vscode.window.showQuickPick(isDarkColorTheme() ? themes : themes.reverse(), { placeHolder: 'Theme variant' });
+    if (!theme) {
+        return;
+    }
+
+    const destination = await vscode.window.showQuickPick(['Open in an untitled editor', 'Save to a file...'], { placeHolder: 'Export to' });
+    if (!destination) {
+        return;
+    }
+
+    // Colors are picked for the chosen variant, which may differ from the current theme
+    const config = vscode.workspace.getConfiguration('functionHighlight');
+    const colorConfig = getColorConfig();
+    let history: (FunctionHistory | undefined)[] | undefined;
+    if (document.uri.scheme === 'file' && (colorConfig.mode === 'age' || colorConfig.mode === 'churn')) {
+        if (colorConfig.mode === 'churn') {
+            await gitHistory.loadChurn(document.uri.fsPath);
+        }
+        history = await gitHistory.getFunctionHistory(document.uri.fsPath, functions, colorConfig.mode === 'churn', document.getText());
+    }
+    const colors = colorCalculator.getFunctionColors(
+        functions,
+        config.get<ColorAssignment>('colorAssignment', 'identity'),
+        colorConfig,
+        theme.theme === 'dark',
+        history
+    ).map(functionColors => functionColors.border);
+
+    const lines: string[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+        lines.push(document.lineAt(line).text);
+    }
+    const content = renderDocument(lines, functions, colors, format.format, {
+        title: path.basename(document.fileName),
+        theme: theme.theme,
+        opacity: colorConfig.opacity,
+        tabSize: typeof editor.options.tabSize === 'number' ? editor.options.tabSize : 4,
+        gutter: getGutterOptions()
+    });
+
+    if (destination.startsWith('Open')) {
+        const output = await vscode.workspace.openTextDocument({ content, language: format.format === 'html' ? 'html' : 'xml' });
+        await vscode.window.showTextDocument(output);
+        return;
+    }
+
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: document.uri.scheme === 'file'
+            ? vscode.Uri.file(`${document.uri.fsPath}.${theme.theme}.${format.format}`)
+            : undefined,
+        filters: { [format.label]: [format.format] }
+    });
+    if (target) {
+        await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+        vscode.window.showInformationMessage(`Function Highlight: exported ${path.basename(target.fsPath)}`);
+    }
+}
+
+function describeViewFilter(options: FunctionsViewOptions): string | undefined {
+    // Shown above the Functions view while a filter hides functions
+    const filters: string[] = [];
+    if (options.filterText) {
+        filters.push(`matching "${options.filterText}"`);
+    }
+    if (options.minLines > 0) {
+        filters.push(`longer than ${options.minLines} ${options.minLines === 1 ? 'line' : 'lines'}`);
+    }
+    return filters.length > 0 ? `Showing functions ${filters.join(' and ')}` : undefined;
+}
+
+function showWorkspaceFunctionPicker() {
+    // Fuzzy search over the functions of all indexed files, by name, container or path
+    const quickPick = vscode.window.createQuickPick<FunctionPickItem>();
+    quickPick.placeholder = 'Type the name of a function to go to';
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+
+    // Files indexed while the picker is open are added to it
+    const update = () => {
+        quickPick.items = getWorkspaceFunctionItems();
+        quickPick.busy = functionIndex.isIndexing();
+    };
+    update();
+    const indexListener = functionIndex.onDidChange(update);
+
+    quickPick.onDidAccept(() => {
+        const item = quickPick.selectedItems[0];
+        quickPick.hide();
+        if (item) {
+            goToFunction(item.functionInfo, item.uri);
+        }
+    });
+    quickPick.onDidHide(() => {
+        indexListener.dispose();
+        quickPick.dispose();
+    });
+    quickPick.show();
+}
+
+function getWorkspaceFunctionItems(): FunctionPickItem[] {
+    const config = vscode.workspace.getConfiguration('functionHighlight');
+    const colorConfig = getColorConfig();
+    const items: FunctionPickItem[] = [];
+
+    functionIndex.getFiles().forEach(file => {
+        // Same colors as the file's bands in the editor
+        const functionColors = colorCalculator.getFunctionColors(
+            file.functions,
+            config.get<ColorAssignment>('colorAssignment', 'identity'),
+            colorConfig,
+            isDarkColorTheme()
+        );
+        const relativePath = vscode.workspace.asRelativePath(file.uri);
+
+        file.functions.forEach((func, index) => {
+            const container = [func.className, func.parent ? func.parent.name : undefined].filter(name => name).join('::');
+            items.push({
+                label: func.name,
+                description: container,
+                detail: `${relativePath}:${func.declarationLine + 1}`,
+                iconPath: createSwatchIcon(functionColors[index].border),
+                functionInfo: func,
+                uri: file.uri
+            });
+        });
+    });
+
+    return items;
+}
+
+function toTextEdit(change: vscode.TextDocumentContentChangeEvent): TextEdit {
+    // Work out where the inserted text ends from its line breaks
+    const insertedLines = change.text.split('\n');
+    const start = change.range.start;
+    const newEndRow = start.line + insertedLines.length - 1;
+    const newEndColumn = insertedLines.length === 1
+        ? start.character + change.text.length
+        : insertedLines[insertedLines.length - 1].length;
+
+    return {
+        startIndex: change.rangeOffset,
+        oldEndIndex: change.rangeOffset + change.rangeLength,
+        newEndIndex: change.rangeOffset + change.text.length,
+        startPosition: { row: start.line, column: start.character },
+        oldEndPosition: { row: change.range.end.line, column: change.range.end.character },
+        newEndPosition: { row: newEndRow, column: newEndColumn }
+    };
+}
+
+function scheduleUpdateDecorations(document: vscode.TextDocument) {
+    // Wait for typing to pause before re-parsing
+    const documentKey = document.uri.toString();
+    const delay = vscode.workspace.getConfiguration('functionHighlight').get<number>('updateDelay', 250);
+
+    cancelScheduledUpdate(documentKey);
+    updateTimers.set(documentKey, setTimeout(() => {
+        updateTimers.delete(documentKey);
+        updateDecorations(document);
+    }, delay));
+}
+
+function cancelScheduledUpdate(documentKey: string) {
+    const timer = updateTimers.get(documentKey);
+    if (timer) {
+        clearTimeout(timer);
+        updateTimers.delete(documentKey);
+    }
+}
+
 function clearDecorations(documentUri: string) {
-    const decorations = decorationCache.get(documentUri);
+    replaceDecorations(documentUri, undefined);
+}
+
+function replaceDecorations(documentUri: string, decorations: DocumentDecorations | undefined) {
+    // Types the document no longer uses are emptied in its editors; the others get new ranges
+    const previous = decorationCache.get(documentUri);
+    const editors = vscode.window.visibleTextEditors.filter(editor => editor.document.uri.toString() === documentUri);
+    if (previous) {
+        previous.decorations.forEach((_ranges, type) => {
+            if (!decorations || !decorations.decorations.has(type)) {
+                editors.forEach(editor => editor.setDecorations(type, []));
+            }
+        });
+    }
+
     if (decorations) {
-        decorations.forEach(decoration => decoration.dispose());
+        decorationCache.set(documentUri, decorations);
+        editors.forEach(editor => {
+            decorations.decorations.forEach((ranges, type) => editor.setDecorations(type, ranges));
+        });
+    } else {
         decorationCache.delete(documentUri);
     }
+
+    editors.forEach(editor => updateCursorDecorations(editor, true));
+    pruneDecorationTypes();
+}
+
+function pruneDecorationTypes() {
+    // Dispose the pooled types that no document or editor uses any more
+    const inUse: Set<vscode.TextEditorDecorationType> = new Set();
+    decorationCache.forEach(cached => cached.decorations.forEach((_ranges, type) => inUse.add(type)));
+    cursorDecorations.forEach(cached => cached.decorations.forEach((_ranges, type) => inUse.add(type)));
+    decorationPool.prune(inUse);
+}
+
+function updateCursorDecorations(editor: vscode.TextEditor, force = false) {
+    // Band the function at the cursor and fade the rest of the file, as configured
+    const config = vscode.workspace.getConfiguration('functionHighlight');
+    const documentKey = editor.document.uri.toString();
+    const parsed = decorationCache.has(documentKey) ? parsedDocuments.get(documentKey) : undefined;
+    const currentOnly = config.get<HighlightStyle>('highlightStyle', 'full') === 'current';
+    const focusMode = config.get<boolean>('focusMode', false);
+    const func = parsed && (currentOnly || focusMode) ? findFunctionAt(parsed.functions, editor.selection.active.line) : undefined;
+
+    // Moving within the same function changes nothing
+    const previous = cursorDecorations.get(editor);
+    if (!force && (previous ? previous.functionInfo : undefined) === func) {
+        return;
+    }
+
+    const decorations: Map<vscode.TextEditorDecorationType, vscode.Range[]> = new Map();
+    if (parsed && func) {
+        const lastLine = editor.document.lineCount - 1;
+        if (currentOnly) {
+            const color = parsed.colors[parsed.functions.indexOf(func)].border;
+            const bandColor = colorCalculator.withAlpha(color, getColorConfig().opacity);
+            decorations.set(decorationPool.getBandType(color, bandColor), [new vscode.Range(func.startLine, 0, func.endLine, Number.MAX_SAFE_INTEGER)]);
+        }
+        if (focusMode) {
+            const outside: vscode.Range[] = [];
+            if (func.declarationLine > 0) {
+                outside.push(new vscode.Range(0, 0, func.declarationLine - 1, Number.MAX_SAFE_INTEGER));
+            }
+            if (func.endLine < lastLine) {
+                outside.push(new vscode.Range(func.endLine + 1, 0, lastLine, Number.MAX_SAFE_INTEGER));
+            }
+            decorations.set(decorationPool.getDimType(config.get<number>('focusOpacity', 0.4)), outside);
+        }
+    }
+
+    if (previous) {
+        previous.decorations.forEach((_ranges, type) => {
+            if (!decorations.has(type)) {
+                editor.setDecorations(type, []);
+            }
+        });
+    }
+    decorations.forEach((ranges, type) => editor.setDecorations(type, ranges));
+    if (decorations.size > 0) {
+        cursorDecorations.set(editor, { functionInfo: func, decorations });
+    } else {
+        cursorDecorations.delete(editor);
+    }
+    if (previous) {
+        pruneDecorationTypes();
+    }
+}
+
+function applyDecorations(document: vscode.TextDocument) {
+    // Draw the document's decorations in every visible editor showing it
+    const cached = decorationCache.get(document.uri.toString());
+    if (!cached) {
+        return;
+    }
+    vscode.window.visibleTextEditors.filter(editor => editor.document === document).forEach(editor => {
+        cached.decorations.forEach((ranges, type) => editor.setDecorations(type, ranges));
+        updateCursorDecorations(editor, true);
+    });
+}
+
+function invalidateDecorations(documentUri?: string) {
+    // Outdated decorations stay on screen until the next update replaces them, so redrawing does not flicker
+    decorationCache.forEach((cached, uri) => {
+        if (documentUri === undefined || uri === documentUri) {
+            cached.version = -1;
+        }
+    });
+}
+
+function parseDocument(document: vscode.TextDocument): Promise<ParseResult> {
+    // Updates of the same document version share one parse
+    const documentKey = document.uri.toString();
+    const pending = parseRequests.get(documentKey);
+    if (pending && pending.version === document.version) {
+        return pending.result;
+    }
+
+    const request = { version: document.version, result: parser.parseFunctions(documentKey, document.languageId, document.getText()) };
+    parseRequests.set(documentKey, request);
+    const forget = () => {
+        if (parseRequests.get(documentKey) === request) {
+            parseRequests.delete(documentKey);
+        }
+    };
+    request.result.then(forget, forget);
+    return request.result;
+}
+
+function showInFunctionsView(document: vscode.TextDocument, parsed: ParsedDocument | undefined) {
+    // The Functions view lists the functions of the active editor only
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document !== document) {
+        return;
+    }
+    if (parsed) {
+        functionTreeProvider.updateFunctions(parsed.functions, document, parsed.history);
+    } else {
+        functionTreeProvider.clear();
+    }
 }
 
-async function updateDecorations(editor: vscode.TextEditor) {
+async function updateDecorations(document: vscode.TextDocument) {
     console.log('updateDecorations called');
     const config = vscode.workspace.getConfiguration('functionHighlight');
     const enabled = config.get<boolean>('enabled', true);
 
     if (!enabled) {
         console.log('Extension disabled');
-        clearDecorations(editor.document.uri.toString());
+        clearDecorations(document.uri.toString());
+        forgetFunctions(document);
         return;
     }
 
-    const document = editor.document;
     const languageId = document.languageId;
     console.log(`Document language: ${languageId}`);
 
@@ -138,330 +1094,285 @@ async function updateDecorations(editor: vscode.TextEditor) {
     if (disabledLanguages.includes(languageId)) {
         console.log(`Language ${languageId} is disabled in settings, skipping`);
         clearDecorations(document.uri.toString());
+        forgetFunctions(document);
         return;
     }
 
-    // Try to set the language for the parser
-    const languageSupported = await parser.setLanguage(languageId);
-    if (!languageSupported) {
-        console.log(`Language ${languageId} not supported, skipping`);
-        clearDecorations(document.uri.toString());
+    // Parse in the background worker; the document may change while it runs
+    const documentKey = document.uri.toString();
+    const version = document.version;
+    cancelScheduledUpdate(documentKey);
+
+    // This version is drawn already, e.g. when the document is opened in another pane
+    const parsed = parsedDocuments.get(documentKey);
+    const cached = decorationCache.get(documentKey);
+    if (parsed && parsed.version === version && cached && cached.version === version) {
+        applyDecorations(document);
+        showInFunctionsView(document, parsed);
         return;
     }
 
-    // Clear previous decorations for this document
-    clearDecorations(document.uri.toString());
-
+    let functions: FunctionInfo[];
     try {
-        // Parse functions
         console.log('Parsing functions...');
-        const sourceCode = document.getText();
-        const functions = parser.parseFunctions(sourceCode);
+        const result = await parseDocument(document);
+
+        // Drop results that a newer parse or edit has made stale
+        if (result.cancelled || document.version !== version) {
+            console.log(`Dropping stale parse result for version ${version}`);
+            return;
+        }
+
+        if (!result.supported) {
+            console.log(`Language ${languageId} not supported, skipping`);
+            if (result.loadError) {
+                reportLoadError(languageId, result.loadError);
+            }
+            clearDecorations(documentKey);
+            forgetFunctions(document);
+            return;
+        }
+
+        functions = result.functions;
         console.log(`Found ${functions.length} functions:`, functions);
+    } catch (error) {
+        console.error('Error parsing functions:', error);
+        return;
+    }
+
+    // The age and churn color modes need the git history before drawing; otherwise
+    // the Functions view reads it when a tooltip is shown. Churn walks the file's
+    // whole history, so the functions are drawn first and again once it is read.
+    const colorMode = getColorConfig().mode;
+    let history: (FunctionHistory | undefined)[] | undefined;
+    if (document.uri.scheme === 'file' && (colorMode === 'age' || colorMode === 'churn')) {
+        history = await gitHistory.getFunctionHistory(document.uri.fsPath, functions, colorMode === 'churn', document.getText());
+        if (document.version !== version) {
+            return;
+        }
+        if (colorMode === 'churn') {
+            gitHistory.loadChurn(document.uri.fsPath).then(loaded => {
+                const current = parsedDocuments.get(documentKey);
+                if (loaded && current && current.functions === functions) {
+                    invalidateDecorations(documentKey);
+                    updateDecorations(document);
+                }
+            }, error => console.error('Error reading git history:', error));
+        }
+    }
+
+    // Another update may have drawn this version while the parse was shared
+    const drawn = decorationCache.get(documentKey);
+    if (drawn && drawn.version === version) {
+        applyDecorations(document);
+        return;
+    }
 
+    try {
         // Update tree view with parsed functions
         if (functions.length === 0) {
             console.log('No functions found');
-            functionTreeProvider.clear();
+            clearDecorations(documentKey);
+            forgetFunctions(document);
+            showInFunctionsView(document, undefined);
             return;
         }
 
-        functionTreeProvider.updateFunctions(functions, document);
-
-        // Use fixed defaults
-        const colorConfig: ColorConfig = {
-            baseColor: '#ffff00',
-            minLines: 5,
-            maxLines: 100
-        };
-        const borderWidth = 5000;
+        const colorConfig = getColorConfig();
 
         // Detect theme type
         const isDarkTheme = isDarkColorTheme();
 
-        // Create decorations for each function
-        const newDecorations: vscode.TextEditorDecorationType[] = [];
+        // Pick the colors of each function for the configured color mode
+        const functionColors = colorCalculator.getFunctionColors(
+            functions,
+            config.get<ColorAssignment>('colorAssignment', 'identity'),
+            colorConfig,
+            isDarkTheme,
+            history
+        );
+        const parsedDocument: ParsedDocument = { version, functions, colors: functionColors, history };
+        parsedDocuments.set(documentKey, parsedDocument);
+        showInFunctionsView(document, parsedDocument);
+        updateCurrentFunction(vscode.window.activeTextEditor);
+        codeLensProvider.refresh();
+        foldingProvider.refresh();
+
+        // Collect the ranges of each pooled decoration type; functions of the same color share a type
+        const decorations: Map<vscode.TextEditorDecorationType, vscode.Range[]> = new Map();
+        const addRanges = (type: vscode.TextEditorDecorationType, ranges: vscode.Range[]) => {
+            decorations.set(type, [...(decorations.get(type) || []), ...ranges]);
+        };
+        const lineRange = (line: number) => new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+        const highlightStyle = config.get<HighlightStyle>('highlightStyle', 'full');
 
         functions.forEach((func, index) => {
-            const backgroundColor = colorCalculator.calculateColor(
-                index,
-                func.lineCount,
-                colorConfig,
-                isDarkTheme
-            );
-            const borderColor = colorCalculator.getBorderColor(
-                index,
-                func.lineCount,
-                colorConfig,
-                isDarkTheme
-            );
-
-            // Add alpha channel for transparency (50% opacity)
-            const transparentColor = borderColor + '80'; // 80 = 50% in hex
-            // Full opacity for minimap/overview ruler
-            const brightMinimapColor = borderColor + 'FF'; // FF = 100% in hex
-
-            console.log(`Function ${index + 1}. ${func.name} (${func.lineCount} lines): border=${transparentColor}, minimap=${brightMinimapColor}`);
-
-            // Create border decorations using left and right borders
-            // Very wide left/right borders create a full-width color overlay with transparency
-            const borderType = vscode.window.createTextEditorDecorationType({
-                isWholeLine: true,
-                borderWidth: `0 ${borderWidth}px 0 ${borderWidth}px`, // top right bottom left
-                borderStyle: 'solid',
-                borderColor: transparentColor,
-                overviewRulerColor: brightMinimapColor, // Bright, fully opaque in minimap
-                overviewRulerLane: vscode.OverviewRulerLane.Full,
-            });
-
-            // Create SVG files for gutter icons
-            const arrowSvgPath = createGutterArrowIcon(borderColor);
-            const lineSvgPath = createGutterLineIcon(borderColor);
-            const lineEndSvgPath = createGutterLineEndIcon(borderColor);
-            const singleLineSvgPath = createGutterSingleLineIcon(borderColor);
-
-            // Create gutter line decoration for function body (vertical line in gutter)
-            const gutterLineType = vscode.window.createTextEditorDecorationType({
-                gutterIconPath: lineSvgPath,
-                gutterIconSize: 'auto',
-                light: {
-                    gutterIconPath: lineSvgPath,
-                },
-                dark: {
-                    gutterIconPath: lineSvgPath,
-                },
-                overviewRulerColor: brightMinimapColor,
-                overviewRulerLane: vscode.OverviewRulerLane.Left,
-            });
+            const borderColor = functionColors[index].border;
 
-            // Create gutter line end decoration for last line (vertical line with ball)
-            const gutterLineEndType = vscode.window.createTextEditorDecorationType({
-                gutterIconPath: lineEndSvgPath,
-                gutterIconSize: 'auto',
-                light: {
-                    gutterIconPath: lineEndSvgPath,
-                },
-                dark: {
-                    gutterIconPath: lineEndSvgPath,
-                },
-                overviewRulerColor: brightMinimapColor,
-                overviewRulerLane: vscode.OverviewRulerLane.Left,
-            });
+            // Add alpha channel for transparency (configured band opacity)
+            const transparentColor = colorCalculator.withAlpha(borderColor, colorConfig.opacity);
 
-            // Create gutter arrow decoration for function start (arrow in gutter)
-            const gutterArrowType = vscode.window.createTextEditorDecorationType({
-                gutterIconPath: arrowSvgPath,
-                gutterIconSize: 'auto',
-                light: {
-                    gutterIconPath: arrowSvgPath,
-                },
-                dark: {
-                    gutterIconPath: arrowSvgPath,
-                },
-                overviewRulerColor: brightMinimapColor,
-                overviewRulerLane: vscode.OverviewRulerLane.Left,
-            });
+            console.log(`Function ${index + 1}. ${func.name} (${func.lineCount} lines, depth ${func.depth}): border=${transparentColor}`);
 
-            // Create single-line decoration (arrow + line + ball combined)
-            const gutterSingleLineType = vscode.window.createTextEditorDecorationType({
-                gutterIconPath: singleLineSvgPath,
-                gutterIconSize: 'auto',
-                light: {
-                    gutterIconPath: singleLineSvgPath,
-                },
-                dark: {
-                    gutterIconPath: singleLineSvgPath,
-                },
-                overviewRulerColor: brightMinimapColor,
-                overviewRulerLane: vscode.OverviewRulerLane.Left,
-            });
-
-            console.log(`Creating gutter decorations for ${func.name}:`);
-            console.log(`  - Border color: ${borderColor}`);
-            console.log(`  - Bright color: ${brightMinimapColor}`);
-            console.log(`  - Arrow icon: ${arrowSvgPath}`);
-            console.log(`  - Line icon: ${lineSvgPath}`);
-            console.log(`  - Line end icon: ${lineEndSvgPath}`);
-            console.log(`  - Single line icon: ${singleLineSvgPath}`);
-
-            // Apply border to entire function range
-            const functionRange = new vscode.Range(
-                new vscode.Position(func.startLine, 0),
-                new vscode.Position(func.endLine, Number.MAX_SAFE_INTEGER)
+            // Leave out the lines of nested functions so each nested body shows its own
+            // band or rail inside the parent's
+            const functionRanges = CppParser.getExclusiveRanges(func).map(range =>
+                new vscode.Range(range.startLine, 0, range.endLine, Number.MAX_SAFE_INTEGER)
             );
-
-            editor.setDecorations(borderType, [functionRange]);
-
-            // Check if this is a single-line function
-            const isSingleLine = func.declarationLine === func.endLine;
-
-            if (isSingleLine) {
-                // For single-line functions, use the combined icon
-                const singleLineRange = new vscode.Range(
-                    new vscode.Position(func.declarationLine, 0),
-                    new vscode.Position(func.declarationLine, Number.MAX_SAFE_INTEGER)
-                );
-
-                console.log(`Applying decorations for ${func.name} (single-line):`);
-                console.log(`  - Line ${func.declarationLine}: arrow + line + ball`);
-
-                newDecorations.push(borderType, gutterSingleLineType);
-                editor.setDecorations(gutterSingleLineType, [singleLineRange]);
-            } else {
-                // For multi-line functions, use separate icons
-                // Apply gutter line to function body (excluding declaration and last line)
-                const bodyRanges: vscode.Range[] = [];
-                for (let line = func.declarationLine + 1; line < func.endLine; line++) {
-                    bodyRanges.push(new vscode.Range(
-                        new vscode.Position(line, 0),
-                        new vscode.Position(line, Number.MAX_SAFE_INTEGER)
-                    ));
-                }
-
-                // Apply arrow only to the function declaration line
-                const arrowRange = new vscode.Range(
-                    new vscode.Position(func.declarationLine, 0),
-                    new vscode.Position(func.declarationLine, Number.MAX_SAFE_INTEGER)
-                );
-
-                // Apply line end (with ball) to the last line of the function
-                const lineEndRange = new vscode.Range(
-                    new vscode.Position(func.endLine, 0),
-                    new vscode.Position(func.endLine, Number.MAX_SAFE_INTEGER)
-                );
-
-                console.log(`Applying decorations for ${func.name} (multi-line):`);
-                console.log(`  - Declaration line: ${func.declarationLine} (arrow)`);
-                console.log(`  - Body lines: ${func.declarationLine + 1}-${func.endLine - 1} (line)`);
-                console.log(`  - End line: ${func.endLine} (line with ball)`);
-                console.log(`  - Gutter line ranges: ${bodyRanges.length} lines`);
-
-                newDecorations.push(borderType, gutterLineType, gutterLineEndType, gutterArrowType);
-                editor.setDecorations(gutterLineType, bodyRanges);
-                editor.setDecorations(gutterLineEndType, [lineEndRange]);
-                editor.setDecorations(gutterArrowType, [arrowRange]);
+            switch (highlightStyle) {
+                case 'full':
+                    addRanges(decorationPool.getBandType(borderColor, transparentColor), functionRanges);
+                    break;
+                case 'rail':
+                    addRanges(decorationPool.getRailType(borderColor), functionRanges);
+                    break;
+                case 'header':
+                    addRanges(decorationPool.getBandType(borderColor, transparentColor), [lineRange(func.declarationLine)]);
+                    break;
+                // The current style follows the cursor, see updateCursorDecorations
             }
         });
 
-        // Store decorations for cleanup
-        decorationCache.set(document.uri.toString(), newDecorations);
+        // A line shows one gutter icon, so each icon draws the markers of every function on its line
+        const gutterOptions = getGutterOptions();
+        const borderColors = functionColors.map(colors => colors.border);
+        getGutterCells(document.lineCount, functions, borderColors, gutterOptions).forEach((cell, line) => {
+            if (cell) {
+                addRanges(decorationPool.getGutterType(cell, gutterOptions), [lineRange(line)]);
+            }
+        });
 
+        // Keep the ranges for editors that show the document later
+        replaceDecorations(documentKey, { version, decorations });
     } catch (error) {
         console.error('Error updating decorations:', error);
     }
 }
 
-function isDarkColorTheme(): boolean {
-    const theme = vscode.window.activeColorTheme;
-    return theme.kind === vscode.ColorThemeKind.Dark ||
-           theme.kind === vscode.ColorThemeKind.HighContrast;
+function configureQueryOverrides() {
+    // Look for user function queries in the configured folder of every workspace folder
+    const queriesPath = vscode.workspace.getConfiguration('functionHighlight').get<string>('queriesPath', '.vscode/function-highlight');
+    const folders = vscode.workspace.workspaceFolders || [];
+
+    const directories = folders.map(folder => path.resolve(folder.uri.fsPath, queriesPath));
+    parser.setQueryDirectories(directories);
+    reportedLoadErrors.clear();
+
+    // Reload queries and re-highlight whenever a query file is edited, added or removed
+    queryWatchers.forEach(watcher => watcher.dispose());
+    queryWatchers = directories.map(directory => {
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(directory, '*.scm'));
+        const reload = () => {
+            parser.setQueryDirectories(directories);
+            reportedLoadErrors.clear();
+            redrawVisibleEditors();
+            functionIndex.reindexAll();
+        };
+        watcher.onDidChange(reload);
+        watcher.onDidCreate(reload);
+        watcher.onDidDelete(reload);
+        return watcher;
+    });
 }
 
-function createGutterArrowIcon(color: string): vscode.Uri {
-    // Create a larger, more visible arrow icon
-    const svgContent = `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 20 20">
-        <polygon points="4,2 16,10 4,18" fill="${color}" stroke="${color}" stroke-width="1" />
-    </svg>`;
-
-    const fileName = `arrow-${color.substring(1)}.svg`;
-    const filePath = path.join(extensionContext.extensionPath, '.icons', fileName);
-
-    // Ensure .icons directory exists
-    const iconsDir = path.join(extensionContext.extensionPath, '.icons');
-    if (!fs.existsSync(iconsDir)) {
-        fs.mkdirSync(iconsDir, { recursive: true });
-    }
-
-    // Write SVG file
-    fs.writeFileSync(filePath, svgContent);
-
-    console.log(`Created arrow icon at: ${filePath}`);
+function configureCustomGrammars() {
+    // Relative grammar and query paths are resolved against the first workspace folder
+    const settings = vscode.workspace.getConfiguration('functionHighlight')
+        .get<{ [languageId: string]: CustomGrammarSetting }>('customGrammars', {});
+    const folders = vscode.workspace.workspaceFolders || [];
+    const resolve = (file: string) => folders.length > 0 ? path.resolve(folders[0].uri.fsPath, file) : path.resolve(file);
+
+    reportedLoadErrors.clear();
+    const grammars: { [languageId: string]: CustomGrammar } = {};
+    const extensions: { [extension: string]: string } = {};
+    Object.entries(settings).forEach(([languageId, setting]) => {
+        if (!setting || typeof setting.wasm !== 'string') {
+            reportLoadError(languageId, 'the "wasm" path of the grammar is missing');
+            return;
+        }
+        grammars[languageId] = {
+            wasmPath: resolve(setting.wasm),
+            queryPath: setting.query ? resolve(setting.query) : undefined,
+            functionTypes: setting.functionTypes,
+            containerTypes: setting.containerTypes
+        };
+        (setting.extensions || []).forEach(extension => {
+            extensions[extension.replace(/^\./, '').toLowerCase()] = languageId;
+        });
+    });
 
-    return vscode.Uri.file(filePath);
+    parser.setCustomGrammars(grammars);
+    functionIndex.setCustomExtensions(extensions);
 }
 
-function createGutterLineIcon(color: string): vscode.Uri {
-    // Create a bold vertical line icon
-    const svgContent = `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 20 20">
-        <rect x="8" y="0" width="4" height="20" fill="${color}" />
-    </svg>`;
-
-    const fileName = `line-${color.substring(1)}.svg`;
-    const filePath = path.join(extensionContext.extensionPath, '.icons', fileName);
-
-    // Ensure .icons directory exists
-    const iconsDir = path.join(extensionContext.extensionPath, '.icons');
-    if (!fs.existsSync(iconsDir)) {
-        fs.mkdirSync(iconsDir, { recursive: true });
-    }
-
-    // Write SVG file
-    fs.writeFileSync(filePath, svgContent);
-
-    console.log(`Created line icon at: ${filePath}`);
-
-    return vscode.Uri.file(filePath);
+function getGrammarLanguageIds(): string[] {
+    // Bundled grammars and the user's grammars
+    const customGrammars = vscode.workspace.getConfiguration('functionHighlight')
+        .get<{ [languageId: string]: CustomGrammarSetting }>('customGrammars', {});
+    return Array.from(new Set([...CppParser.getSupportedLanguageIds(), ...Object.keys(customGrammars)]));
 }
 
-function createGutterLineEndIcon(color: string): vscode.Uri {
-    // Create a vertical line with a ball/dot at the bottom
-    const svgContent = `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 20 20">
-        <rect x="8" y="0" width="4" height="14" fill="${color}" />
-        <circle cx="10" cy="16" r="4" fill="${color}" />
-    </svg>`;
-
-    const fileName = `line-end-${color.substring(1)}.svg`;
-    const filePath = path.join(extensionContext.extensionPath, '.icons', fileName);
-
-    // Ensure .icons directory exists
-    const iconsDir = path.join(extensionContext.extensionPath, '.icons');
-    if (!fs.existsSync(iconsDir)) {
-        fs.mkdirSync(iconsDir, { recursive: true });
+function reportLoadError(languageId: string, message: string) {
+    // Show each failure once until the grammars or queries are reconfigured
+    const key = `${languageId}:${message}`;
+    if (reportedLoadErrors.has(key)) {
+        return;
     }
-
-    // Write SVG file
-    fs.writeFileSync(filePath, svgContent);
-
-    console.log(`Created line-end icon at: ${filePath}`);
-
-    return vscode.Uri.file(filePath);
+    reportedLoadErrors.add(key);
+    vscode.window.showErrorMessage(`Function Highlight: could not load the grammar for ${languageId}: ${message}`);
 }
 
-function createGutterSingleLineIcon(color: string): vscode.Uri {
-    // Create a combined icon: arrow + vertical line + ball for single-line functions
-    const svgContent = `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 20 20">
-        <polygon points="2,2 14,10 2,18" fill="${color}" stroke="${color}" stroke-width="1" />
-        <rect x="14" y="0" width="4" height="14" fill="${color}" />
-        <circle cx="16" cy="16" r="4" fill="${color}" />
-    </svg>`;
+function refreshVisibleEditors() {
+    // Each document is updated once, however many editors show it
+    const documents = new Set(vscode.window.visibleTextEditors.map(editor => editor.document));
+    documents.forEach(document => updateDecorations(document));
+}
 
-    const fileName = `single-line-${color.substring(1)}.svg`;
-    const filePath = path.join(extensionContext.extensionPath, '.icons', fileName);
+function redrawVisibleEditors() {
+    // Settings, the theme or the queries changed, so the drawn decorations are outdated
+    invalidateDecorations();
+    refreshVisibleEditors();
+}
 
-    // Ensure .icons directory exists
-    const iconsDir = path.join(extensionContext.extensionPath, '.icons');
-    if (!fs.existsSync(iconsDir)) {
-        fs.mkdirSync(iconsDir, { recursive: true });
+function applyColorSettings() {
+    // Warn when the chosen palette makes code hard to read on the current theme
+    const warnings = applyPaletteSettings(colorCalculator, isDarkColorTheme());
+    if (warnings.length > 0) {
+        const details = warnings.map(warning => `${warning.color} (${warning.problem})`).join(', ');
+        console.warn(`Palette problems: ${details}`);
+        vscode.window.showWarningMessage(`Function Highlight: some palette colors may make code hard to read on this theme: ${details}`);
     }
+}
 
-    // Write SVG file
-    fs.writeFileSync(filePath, svgContent);
+function getGutterOptions(): GutterOptions {
+    const config = vscode.workspace.getConfiguration('functionHighlight');
+    return {
+        style: config.get<GutterStyle>('gutter.style', DEFAULT_GUTTER_OPTIONS.style),
+        barWidth: config.get<number>('gutter.barWidth', DEFAULT_GUTTER_OPTIONS.barWidth),
+        nestingRails: config.get<boolean>('gutter.nestingRails', DEFAULT_GUTTER_OPTIONS.nestingRails)
+    };
+}
 
-    console.log(`Created single-line icon at: ${filePath}`);
+function isDarkColorTheme(): boolean {
+    const theme = vscode.window.activeColorTheme;
+    return theme.kind === vscode.ColorThemeKind.Dark ||
+           theme.kind === vscode.ColorThemeKind.HighContrast;
+}
 
-    return vscode.Uri.file(filePath);
+function createSwatchIcon(color: string): vscode.Uri {
+    // A filled square in the function's color
+    return iconCache.getIcon(`swatch-${color.substring(1)}`, () =>
+        `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 16 16"><rect x="2" y="2" width="12" height="12" rx="2" fill="${color}" /></svg>`
+    );
 }
 
 export function deactivate() {
-    // Clean up all decorations
-    decorationCache.forEach(decorations => {
-        decorations.forEach(decoration => decoration.dispose());
-    });
-    decorationCache.clear();
-
-    // Clean up icon files
-    const iconsDir = path.join(extensionContext.extensionPath, '.icons');
-    if (fs.existsSync(iconsDir)) {
-        fs.rmSync(iconsDir, { recursive: true, force: true });
+    // Remove the decorations from open editors, then dispose the pooled types and icons
+    Array.from(decorationCache.keys()).forEach(clearDecorations);
+    if (decorationPool) {
+        decorationPool.dispose();
+    }
+    if (iconCache) {
+        iconCache.dispose();
     }
 }
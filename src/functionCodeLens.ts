@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { CppParser, FunctionInfo } from './parser';
+import { getDocumentConfig, getFunctionLines } from './documentFunctions';
+
+/**
+ * Shows the size and container of each function above its declaration, with
+ * actions to jump to its end, select it and reveal it in the Functions view.
+ * Lenses use the functions last parsed for the document, so they follow the
+ * highlighting rather than parsing again.
+ */
+export class FunctionCodeLensProvider implements vscode.CodeLensProvider {
+    private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+
+    constructor(private getFunctions: (document: vscode.TextDocument) => FunctionInfo[] | undefined) {}
+
+    /**
+     * Ask VS Code for new lenses, e.g. after a document was parsed
+     */
+    refresh(): void {
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const config = getDocumentConfig(document);
+        if (!config.get<boolean>('codeLens.enabled', true)) {
+            return [];
+        }
+        const minLines = config.get<number>('codeLens.minLines', 5);
+        const functions = this.getFunctions(document) || [];
+
+        const lenses: vscode.CodeLens[] = [];
+        functions.filter(func => func.lineCount >= minLines).forEach(func => {
+            const lines = getFunctionLines(document, func);
+            if (!lines) {
+                return;
+            }
+            const range = document.lineAt(lines.declarationLine).range;
+            const args = [func, document];
+
+            lenses.push(
+                // Informational lens without an action
+                new vscode.CodeLens(range, { title: this.describe(func), command: '' }),
+                new vscode.CodeLens(range, { title: 'Go to end', command: 'functionHighlight.goToFunctionEnd', arguments: args }),
+                new vscode.CodeLens(range, { title: 'Select', command: 'functionHighlight.selectFunction', arguments: args }),
+                new vscode.CodeLens(range, { title: 'Show in view', command: 'functionHighlight.revealFunction', arguments: args })
+            );
+        });
+        return lenses;
+    }
+
+    dispose(): void {
+        this._onDidChangeCodeLenses.dispose();
+    }
+
+    private describe(func: FunctionInfo): string {
+        const size = `${func.lineCount} ${func.lineCount === 1 ? 'line' : 'lines'}`;
+        const container = func.parent ? CppParser.getQualifiedName(func.parent) : func.className;
+        return container ? `${size} in ${container}` : size;
+    }
+}
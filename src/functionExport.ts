@@ -0,0 +1,96 @@
+import { CppParser, FunctionInfo } from './parser';
+
+// Bumped whenever fields are renamed, removed or change meaning; new fields may be added without a bump
+export const EXPORT_FORMAT_VERSION = 1;
+export const EXPORT_FORMAT_NAME = 'function-highlight-functions';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+// The functions of one file to export, with their highlight colors in the same order
+export interface ExportedFile {
+    path: string; // Workspace-relative path
+    functions: FunctionInfo[];
+    colors: string[];
+}
+
+// One row of an export. Line numbers are 1-based, as shown in editors.
+export interface ExportedFunction {
+    name: string;
+    container: string; // Class/namespace and enclosing functions, e.g. "Parser::parse"; empty at the top level
+    file: string;
+    declarationLine: number;
+    startLine: number;
+    endLine: number;
+    lineCount: number;
+    color: string;
+}
+
+// Column order of the CSV and Markdown formats
+const COLUMNS: (keyof ExportedFunction)[] = ['name', 'container', 'file', 'declarationLine', 'startLine', 'endLine', 'lineCount', 'color'];
+const NUMERIC_COLUMNS: (keyof ExportedFunction)[] = ['declarationLine', 'startLine', 'endLine', 'lineCount'];
+
+/**
+ * Flatten the functions of the given files into export rows, in file and source order
+ */
+export function toExportedFunctions(files: ExportedFile[]): ExportedFunction[] {
+    const rows: ExportedFunction[] = [];
+    files.forEach(file => {
+        file.functions.forEach((func, index) => {
+            rows.push({
+                name: func.name,
+                container: func.parent ? CppParser.getQualifiedName(func.parent) : func.className || '',
+                file: file.path,
+                declarationLine: func.declarationLine + 1,
+                startLine: func.startLine + 1,
+                endLine: func.endLine + 1,
+                lineCount: func.lineCount,
+                color: file.colors[index]
+            });
+        });
+    });
+    return rows;
+}
+
+/**
+ * Render the functions of the given files in an export format
+ */
+export function formatFunctionReport(files: ExportedFile[], format: ExportFormat): string {
+    const rows = toExportedFunctions(files);
+
+    switch (format) {
+        case 'json':
+            return JSON.stringify({
+                format: EXPORT_FORMAT_NAME,
+                version: EXPORT_FORMAT_VERSION,
+                functions: rows
+            }, null, 2) + '\n';
+
+        case 'csv': {
+            // The first line names the format and version; scripts skip it before the header
+            const lines = [
+                `# ${EXPORT_FORMAT_NAME} v${EXPORT_FORMAT_VERSION}`,
+                COLUMNS.join(','),
+                ...rows.map(row => COLUMNS.map(column => escapeCsv(String(row[column]))).join(','))
+            ];
+            return lines.join('\n') + '\n';
+        }
+
+        case 'markdown': {
+            const lines = [
+                `<!-- ${EXPORT_FORMAT_NAME} v${EXPORT_FORMAT_VERSION} -->`,
+                `| ${COLUMNS.join(' | ')} |`,
+                `| ${COLUMNS.map(column => NUMERIC_COLUMNS.includes(column) ? '---:' : '---').join(' | ')} |`,
+                ...rows.map(row => `| ${COLUMNS.map(column => escapeMarkdown(String(row[column]))).join(' | ')} |`)
+            ];
+            return lines.join('\n') + '\n';
+        }
+    }
+}
+
+function escapeCsv(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeMarkdown(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { FunctionInfo } from './parser';
+import { getDocumentConfig, getFunctionLines } from './documentFunctions';
+
+/**
+ * Folding ranges for the parsed functions, from each declaration line to the
+ * function's last line, so folding works where indentation folding does not
+ * (macro-heavy C, shell scripts). Ranges use the functions last parsed for the
+ * document, like the highlighting.
+ */
+export class FunctionFoldingRangeProvider implements vscode.FoldingRangeProvider {
+    private _onDidChangeFoldingRanges: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChangeFoldingRanges: vscode.Event<void> = this._onDidChangeFoldingRanges.event;
+    private registration: vscode.Disposable | undefined;
+
+    constructor(private getFunctions: (document: vscode.TextDocument) => FunctionInfo[] | undefined) {}
+
+    /**
+     * Provide ranges for files and untitled documents of the given languages only,
+     * replacing the languages of an earlier call. Other languages are left to their
+     * own folding providers.
+     */
+    register(languageIds: string[]): void {
+        if (this.registration) {
+            this.registration.dispose();
+        }
+        const selector: vscode.DocumentFilter[] = [];
+        languageIds.forEach(language => selector.push({ scheme: 'file', language }, { scheme: 'untitled', language }));
+        this.registration = vscode.languages.registerFoldingRangeProvider(selector, this);
+    }
+
+    /**
+     * Ask VS Code for new ranges, e.g. after a document was parsed
+     */
+    refresh(): void {
+        this._onDidChangeFoldingRanges.fire();
+    }
+
+    /**
+     * Ranges of the parsed functions, or undefined when there are none to add to the
+     * language's own folding because folding is turned off or the document is not parsed
+     */
+    provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] | undefined {
+        const functions = this.getFunctions(document);
+        if (!getDocumentConfig(document).get<boolean>('folding.enabled', true) || !functions) {
+            return undefined;
+        }
+
+        const ranges: vscode.FoldingRange[] = [];
+        functions.forEach(func => {
+            const lines = getFunctionLines(document, func);
+            if (lines && lines.declarationLine < lines.endLine) {
+                ranges.push(new vscode.FoldingRange(lines.declarationLine, lines.endLine));
+            }
+        });
+        return ranges;
+    }
+
+    dispose(): void {
+        if (this.registration) {
+            this.registration.dispose();
+            this.registration = undefined;
+        }
+        this._onDidChangeFoldingRanges.dispose();
+    }
+}
+
+/**
+ * Declaration lines to fold so that only the given function stays open: every function
+ * that neither contains it nor is nested in it, leaving out functions whose parent is folded
+ */
+export function getFoldLinesExcept(functions: FunctionInfo[], current: FunctionInfo | undefined): number[] {
+    const isKept = (func: FunctionInfo) => current !== undefined && (contains(func, current) || contains(current, func));
+    return getOutermostLines(functions.filter(func => !isKept(func)));
+}
+
+/**
+ * Declaration lines to fold the functions of a class or namespace
+ */
+export function getClassFoldLines(functions: FunctionInfo[], className: string): number[] {
+    return getOutermostLines(functions.filter(func => func.className === className));
+}
+
+function getOutermostLines(functions: FunctionInfo[]): number[] {
+    const folded = new Set(functions);
+    return functions
+        .filter(func => func.declarationLine < func.endLine)
+        .filter(func => !hasAncestorIn(func, folded))
+        .map(func => func.declarationLine);
+}
+
+function hasAncestorIn(func: FunctionInfo, functions: Set<FunctionInfo>): boolean {
+    for (let parent = func.parent; parent; parent = parent.parent) {
+        if (functions.has(parent)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function contains(outer: FunctionInfo, inner: FunctionInfo): boolean {
+    for (let func: FunctionInfo | undefined = inner; func; func = func.parent) {
+        if (func === outer) {
+            return true;
+        }
+    }
+    return false;
+}
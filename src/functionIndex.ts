@@ -0,0 +1,395 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BackgroundParser } from './backgroundParser';
+import { CppParser, FunctionInfo, FunctionMetrics } from './parser';
+
+// The functions of one indexed workspace file
+export interface IndexedFile {
+    uri: vscode.Uri;
+    languageId: string;
+    functions: FunctionInfo[];
+}
+
+// A function as stored in the index cache; the parent is an index into the file's list
+interface StoredFunction {
+    name: string;
+    className?: string;
+    startLine: number;
+    endLine: number;
+    declarationLine: number;
+    depth: number;
+    parent?: number;
+    metrics: FunctionMetrics;
+}
+
+interface StoredFile {
+    mtime: number;
+    size: number;
+    languageId: string;
+    functions: StoredFunction[];
+}
+
+// Contents of the index cache file in the workspace storage folder
+interface StoredIndex {
+    version: number;
+    extensionVersion: string; // Queries may change between releases, so their results are not reused
+    files: { [uri: string]: StoredFile };
+}
+
+interface IndexEntry {
+    mtime: number;
+    size: number;
+    file: IndexedFile;
+}
+
+const INDEX_FORMAT_VERSION = 1;
+const INDEX_FILE_NAME = 'function-index.json';
+const MAX_FILE_SIZE = 1024 * 1024; // Larger files are usually generated or minified
+const SAVE_DELAY = 2000;
+const CHANGE_BATCH_SIZE = 50; // Files indexed between change notifications during a scan
+
+/**
+ * Indexes the functions of every supported file in the workspace with the
+ * background parser. The index is kept in the workspace storage folder between
+ * sessions, so only files changed since the last session are parsed again, and
+ * it is kept up to date with file system watchers.
+ */
+export class FunctionIndex implements vscode.Disposable {
+    private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    private entries: Map<string, IndexEntry> = new Map(); // By URI
+    private watchers: vscode.FileSystemWatcher[] = [];
+    private generation = 0; // Incremented to cancel a running scan
+    private scanning = false;
+    private saveTimer: NodeJS.Timeout | undefined;
+    private customExtensions: { [extension: string]: string } = {}; // Language IDs of custom grammars by file extension
+
+    constructor(
+        private parser: BackgroundParser,
+        private storageUri: vscode.Uri | undefined,
+        private extensionVersion: string
+    ) {}
+
+    /**
+     * Load the cached index, then index new and changed files and start watching
+     */
+    async start(): Promise<void> {
+        await this.load();
+        if (this.entries.size > 0) {
+            this._onDidChange.fire();
+        }
+        this.watch();
+        await this.scan();
+    }
+
+    /**
+     * Scan the workspace again, e.g. after the include or exclude globs changed
+     */
+    async rescan(): Promise<void> {
+        this.watch();
+        await this.scan();
+    }
+
+    /**
+     * Parse every file again, e.g. after function queries or grammars changed
+     */
+    async reindexAll(): Promise<void> {
+        this.entries.forEach(entry => entry.mtime = -1);
+        this.watch();
+        await this.scan();
+    }
+
+    /**
+     * Set the file extensions of custom grammar languages, so their files are indexed too.
+     * Takes effect with the next scan.
+     */
+    setCustomExtensions(extensions: { [extension: string]: string }): void {
+        this.customExtensions = extensions;
+    }
+
+    isIndexing(): boolean {
+        return this.scanning;
+    }
+
+    /**
+     * Indexed files with at least one function, sorted by path
+     */
+    getFiles(): IndexedFile[] {
+        return Array.from(this.entries.values())
+            .map(entry => entry.file)
+            .filter(file => file.functions.length > 0)
+            .sort((a, b) => a.uri.path.localeCompare(b.uri.path));
+    }
+
+    dispose(): void {
+        this.generation++;
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = [];
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+            this.save();
+        }
+        this._onDidChange.dispose();
+    }
+
+    private async scan(): Promise<void> {
+        const generation = ++this.generation;
+        this.scanning = true;
+        this._onDidChange.fire();
+
+        try {
+            const uris = await vscode.workspace.findFiles(this.getIncludePattern(), this.getExcludePattern());
+            if (generation !== this.generation) {
+                return;
+            }
+
+            // Forget files that were deleted or are excluded now
+            const found = new Set(uris.map(uri => uri.toString()));
+            let changed = false;
+            Array.from(this.entries.keys()).filter(key => !found.has(key)).forEach(key => {
+                this.entries.delete(key);
+                changed = true;
+            });
+
+            let indexed = 0;
+            for (const uri of uris) {
+                if (generation !== this.generation) {
+                    return;
+                }
+                if (await this.indexFile(uri)) {
+                    changed = true;
+                    if (++indexed % CHANGE_BATCH_SIZE === 0) {
+                        this._onDidChange.fire();
+                    }
+                }
+            }
+
+            if (changed) {
+                this.scheduleSave();
+            }
+        } catch (error) {
+            console.error('Error indexing workspace functions:', error);
+        } finally {
+            if (generation === this.generation) {
+                this.scanning = false;
+                this._onDidChange.fire();
+            }
+        }
+    }
+
+    /**
+     * Parse a file unless the index already holds its current version.
+     * Returns whether the index changed.
+     */
+    private async indexFile(uri: vscode.Uri): Promise<boolean> {
+        const key = uri.toString();
+        const languageId = this.getLanguageId(uri.path);
+        if (!languageId) {
+            return this.entries.delete(key);
+        }
+
+        let stat: vscode.FileStat;
+        try {
+            stat = await vscode.workspace.fs.stat(uri);
+        } catch {
+            return this.entries.delete(key);
+        }
+        if (stat.size > MAX_FILE_SIZE) {
+            return this.entries.delete(key);
+        }
+
+        const cached = this.entries.get(key);
+        if (cached && cached.mtime === stat.mtime && cached.size === stat.size) {
+            return false;
+        }
+
+        const documentKey = `index:${key}`;
+        try {
+            const sourceCode = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uri));
+            const result = await this.parser.parseFunctions(documentKey, languageId, sourceCode);
+            // A newer parse of the file superseded this one and updates the entry itself
+            if (result.cancelled) {
+                return false;
+            }
+            if (!result.supported) {
+                return this.entries.delete(key);
+            }
+            this.entries.set(key, {
+                mtime: stat.mtime,
+                size: stat.size,
+                file: { uri, languageId, functions: result.functions }
+            });
+            return true;
+        } catch (error) {
+            console.error(`Error indexing ${uri.fsPath}:`, error);
+            return false;
+        } finally {
+            // Index parses are one-off, so the worker need not keep their syntax trees
+            this.parser.releaseDocument(documentKey);
+        }
+    }
+
+    private watch(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+
+        const watcher = vscode.workspace.createFileSystemWatcher(this.getIncludePattern());
+        const update = async (uri: vscode.Uri) => {
+            const changed = await this.isIncluded(uri)
+                ? await this.indexFile(uri)
+                : this.entries.delete(uri.toString());
+            if (changed) {
+                this.scheduleSave();
+                this._onDidChange.fire();
+            }
+        };
+        watcher.onDidCreate(update);
+        watcher.onDidChange(update);
+        watcher.onDidDelete(uri => {
+            if (this.entries.delete(uri.toString())) {
+                this.scheduleSave();
+                this._onDidChange.fire();
+            }
+        });
+        this.watchers = [watcher];
+    }
+
+    /**
+     * Check a changed file against the exclude globs, which the watcher does not apply
+     */
+    private async isIncluded(uri: vscode.Uri): Promise<boolean> {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder) {
+            return false;
+        }
+        const relativePath = vscode.workspace.asRelativePath(uri, false);
+        const matches = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, relativePath), this.getExcludePattern(), 1);
+        return matches.length > 0;
+    }
+
+    private getLanguageId(filePath: string): string | undefined {
+        const extension = path.extname(filePath).substring(1).toLowerCase();
+        return this.customExtensions[extension] || CppParser.getLanguageIdForFile(filePath);
+    }
+
+    private getIncludePattern(): string {
+        const include = vscode.workspace.getConfiguration('functionHighlight').get<string>('index.include', '');
+        const extensions = new Set([...CppParser.getSupportedExtensions(), ...Object.keys(this.customExtensions)]);
+        return include || `**/*.{${Array.from(extensions).join(',')}}`;
+    }
+
+    private getExcludePattern(): string | undefined {
+        // An explicit exclude pattern replaces files.exclude in findFiles, so both are combined
+        const filesExclude = vscode.workspace.getConfiguration('files').get<{ [glob: string]: unknown }>('exclude', {});
+        const excludes = [
+            ...Object.keys(filesExclude).filter(glob => filesExclude[glob] === true),
+            ...vscode.workspace.getConfiguration('functionHighlight').get<string[]>('index.exclude', [])
+        ];
+        return excludes.length > 0 ? `{${excludes.join(',')}}` : undefined;
+    }
+
+    private async load(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
+
+        let stored: StoredIndex;
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(this.storageUri, INDEX_FILE_NAME));
+            stored = JSON.parse(new TextDecoder('utf-8').decode(content));
+        } catch {
+            // No index was saved yet
+            return;
+        }
+        if (stored.version !== INDEX_FORMAT_VERSION || stored.extensionVersion !== this.extensionVersion) {
+            return;
+        }
+
+        Object.entries(stored.files).forEach(([key, file]) => {
+            this.entries.set(key, {
+                mtime: file.mtime,
+                size: file.size,
+                file: {
+                    uri: vscode.Uri.parse(key),
+                    languageId: file.languageId,
+                    functions: FunctionIndex.restoreFunctions(file.functions)
+                }
+            });
+        });
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            this.save();
+        }, SAVE_DELAY);
+    }
+
+    private async save(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
+
+        const stored: StoredIndex = { version: INDEX_FORMAT_VERSION, extensionVersion: this.extensionVersion, files: {} };
+        this.entries.forEach((entry, key) => {
+            stored.files[key] = {
+                mtime: entry.mtime,
+                size: entry.size,
+                languageId: entry.file.languageId,
+                functions: FunctionIndex.storeFunctions(entry.file.functions)
+            };
+        });
+
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(
+                vscode.Uri.joinPath(this.storageUri, INDEX_FILE_NAME),
+                new TextEncoder().encode(JSON.stringify(stored))
+            );
+        } catch (error) {
+            console.error('Error saving the function index:', error);
+        }
+    }
+
+    private static storeFunctions(functions: FunctionInfo[]): StoredFunction[] {
+        return functions.map(func => ({
+            name: func.name,
+            className: func.className,
+            startLine: func.startLine,
+            endLine: func.endLine,
+            declarationLine: func.declarationLine,
+            depth: func.depth,
+            parent: func.parent ? functions.indexOf(func.parent) : undefined,
+            metrics: func.metrics
+        }));
+    }
+
+    private static restoreFunctions(stored: StoredFunction[]): FunctionInfo[] {
+        // Parents are listed before their nested functions
+        const functions: FunctionInfo[] = [];
+        stored.forEach(entry => {
+            const parent = entry.parent !== undefined ? functions[entry.parent] : undefined;
+            const func: FunctionInfo = {
+                name: entry.name,
+                className: entry.className,
+                startLine: entry.startLine,
+                endLine: entry.endLine,
+                lineCount: entry.endLine - entry.startLine + 1,
+                declarationLine: entry.declarationLine,
+                parent,
+                children: [],
+                depth: entry.depth,
+                metrics: entry.metrics
+            };
+            if (parent) {
+                parent.children.push(func);
+            }
+            functions.push(func);
+        });
+        return functions;
+    }
+}
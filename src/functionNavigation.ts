@@ -0,0 +1,55 @@
+import { FunctionInfo } from './parser';
+
+// Lines of a function or of all functions of a container, from a declaration to a last line
+export interface LineSpan {
+    startLine: number;
+    endLine: number;
+}
+
+/**
+ * The first function declared after a line
+ */
+export function findNextFunction(functions: FunctionInfo[], line: number): FunctionInfo | undefined {
+    return sortByDeclaration(functions).find(func => func.declarationLine > line);
+}
+
+/**
+ * The last function declared before a line
+ */
+export function findPreviousFunction(functions: FunctionInfo[], line: number): FunctionInfo | undefined {
+    return sortByDeclaration(functions).reverse().find(func => func.declarationLine < line);
+}
+
+/**
+ * The next function after the given one drawn in the same color, wrapping around at
+ * the end of the file; colors are parallel to the functions
+ */
+export function findNextFunctionWithColor(functions: FunctionInfo[], colors: string[], current: FunctionInfo): FunctionInfo | undefined {
+    const color = colors[functions.indexOf(current)];
+    const sameColor = sortByDeclaration(functions.filter((func, index) => colors[index] === color && func !== current));
+    return sameColor.find(func => func.declarationLine > current.declarationLine) || sameColor[0];
+}
+
+/**
+ * Spans a selection can grow to, smallest first: each function, then each class or
+ * namespace spanning all of its functions
+ */
+export function getSelectionSpans(functions: FunctionInfo[]): LineSpan[] {
+    const spans: LineSpan[] = functions.map(func => ({ startLine: func.declarationLine, endLine: func.endLine }));
+
+    const containers: Map<string, LineSpan> = new Map();
+    functions.filter(func => func.className).forEach(func => {
+        const container = containers.get(func.className!);
+        containers.set(func.className!, container
+            ? { startLine: Math.min(container.startLine, func.declarationLine), endLine: Math.max(container.endLine, func.endLine) }
+            : { startLine: func.declarationLine, endLine: func.endLine });
+    });
+
+    // The sort is stable, so a container comes after functions of the same size
+    const size = (span: LineSpan) => span.endLine - span.startLine;
+    return [...spans, ...Array.from(containers.values())].sort((a, b) => size(a) - size(b));
+}
+
+function sortByDeclaration(functions: FunctionInfo[]): FunctionInfo[] {
+    return [...functions].sort((a, b) => a.declarationLine - b.declarationLine);
+}
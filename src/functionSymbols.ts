@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import { FunctionInfo } from './parser';
+import { getDocumentConfig, getFunctionLines } from './documentFunctions';
+
+/**
+ * Lists the parsed functions in the Outline view and breadcrumbs, with classes and
+ * namespaces as parent symbols and nested functions under their parent. It is off
+ * unless enabled for a language, so it does not duplicate a language server's symbols.
+ */
+export class FunctionSymbolProvider implements vscode.DocumentSymbolProvider {
+    constructor(private getFunctions: (document: vscode.TextDocument) => Promise<FunctionInfo[] | undefined>) {}
+
+    async provideDocumentSymbols(document: vscode.TextDocument): Promise<vscode.DocumentSymbol[]> {
+        const config = getDocumentConfig(document);
+        if (!config.get<boolean>('documentSymbols.enabled', false)) {
+            return [];
+        }
+
+        const functions = await this.getFunctions(document);
+        if (!functions) {
+            return [];
+        }
+
+        const symbols: vscode.DocumentSymbol[] = [];
+        const containers: Map<string, vscode.DocumentSymbol> = new Map();
+        const functionSymbols: Map<FunctionInfo, vscode.DocumentSymbol> = new Map();
+
+        // Functions are listed parents-first, so a parent's symbol exists before its nested functions
+        functions.forEach(func => {
+            const symbol = this.createSymbol(document, func);
+            if (!symbol) {
+                return;
+            }
+            functionSymbols.set(func, symbol);
+
+            const parent = func.parent ? functionSymbols.get(func.parent) : undefined;
+            if (parent) {
+                parent.children.push(symbol);
+            } else if (func.className) {
+                this.getContainer(func.className, symbol, containers, symbols).children.push(symbol);
+            } else {
+                symbols.push(symbol);
+            }
+        });
+
+        // A container spans all of its functions, which may be spread over the file
+        containers.forEach(container => {
+            container.children.forEach(child => {
+                container.range = container.range.union(child.range);
+            });
+        });
+        return symbols.sort((a, b) => a.range.start.compareTo(b.range.start));
+    }
+
+    private createSymbol(document: vscode.TextDocument, func: FunctionInfo): vscode.DocumentSymbol | undefined {
+        const lines = getFunctionLines(document, func);
+        if (!lines) {
+            return undefined;
+        }
+        const range = new vscode.Range(lines.declarationLine, 0, lines.endLine, document.lineAt(lines.endLine).text.length);
+
+        // Breadcrumbs point at the name when it is on the declaration line
+        const declaration = document.lineAt(func.declarationLine);
+        const nameStart = declaration.text.indexOf(func.name);
+        const selectionRange = nameStart >= 0
+            ? new vscode.Range(func.declarationLine, nameStart, func.declarationLine, nameStart + func.name.length)
+            : declaration.range;
+
+        return new vscode.DocumentSymbol(
+            func.name,
+            `${func.lineCount} ${func.lineCount === 1 ? 'line' : 'lines'}`,
+            func.className ? vscode.SymbolKind.Method : vscode.SymbolKind.Function,
+            range,
+            selectionRange
+        );
+    }
+
+    private getContainer(
+        className: string,
+        first: vscode.DocumentSymbol,
+        containers: Map<string, vscode.DocumentSymbol>,
+        symbols: vscode.DocumentSymbol[]
+    ): vscode.DocumentSymbol {
+        let container = containers.get(className);
+        if (!container) {
+            // Placed at its first function until its range is widened to all of them
+            container = new vscode.DocumentSymbol(className, '', vscode.SymbolKind.Class, first.range, first.selectionRange);
+            containers.set(className, container);
+            symbols.push(container);
+        }
+        return container;
+    }
+}
@@ -1,19 +1,68 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import * as fs from 'fs';
-import { FunctionInfo } from './parser';
-import { ColorCalculator, ColorConfig } from './colorCalculator';
+import { CppParser, FunctionInfo } from './parser';
+import { ColorAssignment, ColorCalculator, FunctionColors } from './colorCalculator';
+import { getColorConfig } from './colorSettings';
+import { FunctionHistory, GitHistory } from './gitHistory';
+import { FunctionIndex } from './functionIndex';
+import { IconCache } from './iconCache';
 
 // Base tree item type
-type TreeElement = ClassTreeItem | FunctionTreeItem;
+export type TreeElement = FileTreeItem | ClassTreeItem | FunctionTreeItem;
+
+// Whether the Functions view lists the active document or the whole workspace
+export type FunctionsViewMode = 'document' | 'workspace';
+
+// Order of functions (and of classes) within each level of the Functions view
+export type FunctionSortOrder = 'position' | 'name' | 'length';
+
+// How the Functions view arranges and filters functions
+export interface FunctionsViewOptions {
+    sortOrder: FunctionSortOrder;
+    grouped: boolean; // Group by class/namespace and enclosing function, or list all functions flat
+    filterText: string; // Only functions whose qualified name contains this text
+    minLines: number; // Only functions longer than this many lines (0 shows all)
+}
+
+export const DEFAULT_VIEW_OPTIONS: FunctionsViewOptions = {
+    sortOrder: 'position',
+    grouped: true,
+    filterText: '',
+    minLines: 0
+};
+
+// The functions of one file with their colors and git history
+export interface FileFunctions {
+    uri: vscode.Uri;
+    document?: vscode.TextDocument; // Set for the active document
+    functions: FunctionInfo[];
+    colors: FunctionColors[];
+    history: (FunctionHistory | undefined)[];
+}
+
+// Tree item representing a file in workspace mode
+export class FileTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly file: FileFunctions,
+        functionCount: number, // Functions shown after filtering
+        expanded: boolean
+    ) {
+        super(file.uri, expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = file.uri.toString();
+        this.contextValue = 'file';
+        this.description = `${functionCount} ${functionCount === 1 ? 'function' : 'functions'}`;
+        this.tooltip = vscode.workspace.asRelativePath(file.uri);
+    }
+}
 
 // Tree item representing a class/namespace
 export class ClassTreeItem extends vscode.TreeItem {
     constructor(
         public readonly className: string,
-        public readonly functions: FunctionInfo[]
+        public readonly functions: FunctionInfo[],
+        public readonly file: FileFunctions
     ) {
         super(className, vscode.TreeItemCollapsibleState.Expanded);
+        this.id = `${file.uri.toString()}::${className}`;
         this.contextValue = 'class';
         this.description = `${functions.length} ${functions.length === 1 ? 'function' : 'functions'}`;
     }
@@ -23,23 +72,70 @@ export class ClassTreeItem extends vscode.TreeItem {
 export class FunctionTreeItem extends vscode.TreeItem {
     constructor(
         public readonly functionInfo: FunctionInfo,
+        public readonly file: FileFunctions,
         public readonly index: number,
-        public readonly color: string,
         public readonly iconPath: vscode.Uri,
-        public readonly command?: vscode.Command
+        public readonly command?: vscode.Command,
+        flat?: boolean
     ) {
         // Create a label with color indicator and function name
         // We'll style the background using the description field with ANSI-like formatting
-        super(functionInfo.name, vscode.TreeItemCollapsibleState.None);
-
-        // Set description with line count and add a visual color indicator
-        this.description = `${functionInfo.lineCount} lines`;
+        // Functions containing nested functions can be expanded to show them;
+        // in the flat list they are listed by their qualified name instead
+        super(
+            flat ? CppParser.getQualifiedName(functionInfo) : functionInfo.name,
+            functionInfo.children.length > 0 && !flat
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.None
+        );
+
+        // Stable ids let the view reveal a function and keep expansion state across updates
+        this.id = `${file.uri.toString()}#${index}`;
+
+        // Set description with line count and complexity
+        const metrics = functionInfo.metrics;
+        this.description = `${functionInfo.lineCount} lines, complexity ${metrics.cyclomaticComplexity}`;
+
+        // Without history from the color mode, the tooltip is resolved when it is first
+        // shown, so files are only blamed once their history is looked at
+        if (file.history.length > 0) {
+            this.tooltip = this.describe(file.history[index]);
+        }
+        this.contextValue = 'function';
+    }
 
+    /**
+     * The tooltip text, with the function's git history when it has any
+     */
+    describe(history?: FunctionHistory): string {
+        const functionInfo = this.functionInfo;
+        const metrics = functionInfo.metrics;
         const fullName = functionInfo.className
             ? `${functionInfo.className}::${functionInfo.name}`
             : functionInfo.name;
-        this.tooltip = `${fullName}\nLines: ${functionInfo.declarationLine + 1}-${functionInfo.endLine + 1}\nLength: ${functionInfo.lineCount} lines\nColor: ${color}`;
-        this.contextValue = 'function';
+        const nesting = functionInfo.parent ? `\nNested in: ${functionInfo.parent.name}` : '';
+        const metricLines = [
+            `Cyclomatic complexity: ${metrics.cyclomaticComplexity}`,
+            `Max nesting: ${metrics.maxNesting}`,
+            `Parameters: ${metrics.parameterCount}`,
+            `Returns: ${metrics.returnCount}`,
+            `Comments: ${Math.round(metrics.commentRatio * 100)}%`
+        ].join('\n');
+        return `${fullName}\nLines: ${functionInfo.declarationLine + 1}-${functionInfo.endLine + 1}\nLength: ${functionInfo.lineCount} lines${nesting}\n${metricLines}${FunctionTreeItem.describeHistory(history)}\nColor: ${this.file.colors[this.index].border}`;
+    }
+
+    private static describeHistory(history?: FunctionHistory): string {
+        if (!history) {
+            return '';
+        }
+        if (history.uncommitted) {
+            return '\nLast changed: not committed yet';
+        }
+
+        const days = Math.floor((Date.now() - history.lastChanged) / (24 * 60 * 60 * 1000));
+        const age = days <= 0 ? 'today' : days === 1 ? '1 day ago' : `${days} days ago`;
+        const churn = history.commits !== undefined ? `\nChanged in ${history.commits} ${history.commits === 1 ? 'commit' : 'commits'}` : '';
+        return `\nLast changed ${age} by ${history.author}${churn}`;
     }
 }
 
@@ -47,64 +143,210 @@ export class FunctionTreeProvider implements vscode.TreeDataProvider<TreeElement
     private _onDidChangeTreeData: vscode.EventEmitter<TreeElement | undefined | null | void> = new vscode.EventEmitter<TreeElement | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<TreeElement | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    private functions: FunctionInfo[] = [];
-    private currentDocument: vscode.TextDocument | undefined;
+    private current: FileFunctions | undefined; // The active document
+    private mode: FunctionsViewMode = 'document';
+    private options: FunctionsViewOptions = { ...DEFAULT_VIEW_OPTIONS };
     private colorCalculator: ColorCalculator;
     private extensionContext: vscode.ExtensionContext;
+    private functionIndex: FunctionIndex;
+    private iconCache: IconCache;
+    private gitHistory: GitHistory;
 
     constructor(
         colorCalculator: ColorCalculator,
-        extensionContext: vscode.ExtensionContext
+        extensionContext: vscode.ExtensionContext,
+        functionIndex: FunctionIndex,
+        iconCache: IconCache,
+        gitHistory: GitHistory
     ) {
         this.colorCalculator = colorCalculator;
         this.extensionContext = extensionContext;
+        this.functionIndex = functionIndex;
+        this.iconCache = iconCache;
+        this.gitHistory = gitHistory;
+
+        // The workspace listing follows the index
+        extensionContext.subscriptions.push(functionIndex.onDidChange(() => {
+            if (this.mode === 'workspace') {
+                this.refresh();
+            }
+        }));
     }
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
-    updateFunctions(functions: FunctionInfo[], document: vscode.TextDocument): void {
-        this.functions = functions;
-        this.currentDocument = document;
+    getMode(): FunctionsViewMode {
+        return this.mode;
+    }
+
+    setMode(mode: FunctionsViewMode): void {
+        this.mode = mode;
         this.refresh();
     }
 
-    clear(): void {
-        this.functions = [];
-        this.currentDocument = undefined;
+    getOptions(): FunctionsViewOptions {
+        return { ...this.options };
+    }
+
+    setOptions(options: Partial<FunctionsViewOptions>): void {
+        this.options = { ...this.options, ...options };
         this.refresh();
     }
 
+    updateFunctions(functions: FunctionInfo[], document: vscode.TextDocument, history?: (FunctionHistory | undefined)[]): void {
+        this.current = { uri: document.uri, document, functions, colors: [], history: history || [] };
+        this.current.colors = this.getColors(this.current.functions, this.current.history);
+        this.refreshDocument();
+    }
+
+    clear(): void {
+        this.current = undefined;
+        this.refreshDocument();
+    }
+
     getTreeItem(element: TreeElement): vscode.TreeItem {
         return element;
     }
 
+    /**
+     * Fill in a function's tooltip with the git history of its file when it is first shown
+     */
+    async resolveTreeItem(item: vscode.TreeItem, element: TreeElement): Promise<vscode.TreeItem> {
+        if (!(element instanceof FunctionTreeItem) || item.tooltip !== undefined) {
+            return item;
+        }
+
+        const file = element.file;
+        if (file.history.length === 0) {
+            const history = file.uri.scheme === 'file'
+                ? await this.gitHistory.getFunctionHistory(file.uri.fsPath, file.functions, false, file.document ? file.document.getText() : undefined)
+                : undefined;
+            // Files without history get an empty entry per function so git is not asked again
+            file.history = history || file.functions.map(() => undefined);
+        }
+        item.tooltip = element.describe(file.history[element.index]);
+        return item;
+    }
+
     getChildren(element?: TreeElement): Thenable<TreeElement[]> {
-        if (!this.currentDocument || this.functions.length === 0) {
-            return Promise.resolve([]);
+        // If element is a FileTreeItem, return its classes and functions
+        if (element instanceof FileTreeItem) {
+            return Promise.resolve(this.createRootItems(element.file));
         }
 
         // If element is a ClassTreeItem, return its functions
         if (element instanceof ClassTreeItem) {
-            return Promise.resolve(this.createFunctionItems(element.functions));
+            return Promise.resolve(this.createFunctionItems(element.file, element.functions));
         }
 
-        // If element is a FunctionTreeItem, it has no children
+        // If element is a FunctionTreeItem, return its nested functions
         if (element instanceof FunctionTreeItem) {
+            return Promise.resolve(this.createFunctionItems(element.file, this.getVisibleFunctions(element.functionInfo.children)));
+        }
+
+        // Root level: one item per file with visible functions in workspace mode
+        if (this.mode === 'workspace') {
+            const items: TreeElement[] = [];
+            this.functionIndex.getFiles().forEach(indexed => {
+                const item = this.createFileItem(this.getFileFunctions(indexed.uri, indexed.functions));
+                if (item) {
+                    items.push(item);
+                }
+            });
+            return Promise.resolve(items);
+        }
+
+        // Otherwise group the active document's functions by class/namespace
+        if (!this.current || this.current.functions.length === 0) {
             return Promise.resolve([]);
         }
+        return Promise.resolve(this.createRootItems(this.current));
+    }
+
+    getParent(element: TreeElement): TreeElement | undefined {
+        const file = element.file;
+        const fileItem = this.mode === 'workspace' ? this.createFileItem(file) : undefined;
+        if (!(element instanceof FunctionTreeItem)) {
+            return element instanceof ClassTreeItem ? fileItem : undefined;
+        }
+
+        const func = element.functionInfo;
+        if (!this.options.grouped) {
+            return fileItem;
+        }
+        if (func.parent) {
+            return this.createFunctionItems(file, [func.parent])[0];
+        }
+        if (func.className) {
+            const className = func.className;
+            const classFunctions = this.getVisibleFunctions(file.functions.filter(other => !other.parent && other.className === className));
+            return new ClassTreeItem(className, classFunctions, file);
+        }
+        return fileItem;
+    }
+
+    /**
+     * The tree item of a function of the active document, for revealing it in the view.
+     * Undefined when the function is filtered out.
+     */
+    getFunctionItem(uri: vscode.Uri, functionInfo: FunctionInfo): FunctionTreeItem | undefined {
+        if (!this.current || this.current.uri.toString() !== uri.toString() || !this.current.functions.includes(functionInfo)) {
+            return undefined;
+        }
+        const visible = this.options.grouped
+            ? this.getVisibleFunctions([functionInfo]).length > 0
+            : this.matchesFilter(functionInfo);
+        return visible ? this.createFunctionItems(this.current, [functionInfo])[0] : undefined;
+    }
+
+    private createFileItem(file: FileFunctions): FileTreeItem | undefined {
+        // Files without functions matching the filter are left out; filtered files start expanded
+        const filtering = this.isFiltering();
+        const count = filtering ? file.functions.filter(func => this.matchesFilter(func)).length : file.functions.length;
+        return count > 0 ? new FileTreeItem(file, count, filtering) : undefined;
+    }
+
+    private refreshDocument(): void {
+        // The workspace listing does not show the active document's parse results
+        if (this.mode === 'document') {
+            this.refresh();
+        }
+    }
+
+    /**
+     * The functions of a workspace file; the active document's own parse is newer than the index
+     */
+    private getFileFunctions(uri: vscode.Uri, functions: FunctionInfo[]): FileFunctions {
+        if (this.current && this.current.uri.toString() === uri.toString()) {
+            return this.current;
+        }
+        return { uri, functions, colors: this.getColors(functions, []), history: [] };
+    }
 
-        // Root level: group functions by class/namespace
-        return Promise.resolve(this.createRootItems());
+    private getColors(functions: FunctionInfo[], history: (FunctionHistory | undefined)[]): FunctionColors[] {
+        return this.colorCalculator.getFunctionColors(
+            functions,
+            vscode.workspace.getConfiguration('functionHighlight').get<ColorAssignment>('colorAssignment', 'identity'),
+            getColorConfig(),
+            this.isDarkColorTheme(),
+            history
+        );
     }
 
-    private createRootItems(): TreeElement[] {
-        // Group functions by class name
+    private createRootItems(file: FileFunctions): TreeElement[] {
+        // The flat list shows every matching function, nested ones included, at the root
+        if (!this.options.grouped) {
+            const matching = this.sortFunctions(file.functions.filter(func => this.matchesFilter(func)));
+            return this.createFunctionItems(file, matching);
+        }
+
+        // Group top-level functions by class name; nested functions appear under their parent
         const grouped = new Map<string, FunctionInfo[]>();
         const globalFunctions: FunctionInfo[] = [];
 
-        this.functions.forEach(func => {
+        this.getVisibleFunctions(file.functions.filter(func => !func.parent)).forEach(func => {
             if (func.className) {
                 if (!grouped.has(func.className)) {
                     grouped.set(func.className, []);
@@ -117,50 +359,76 @@ export class FunctionTreeProvider implements vscode.TreeDataProvider<TreeElement
 
         const items: TreeElement[] = [];
 
-        // Add class/namespace groups first
-        grouped.forEach((functions, className) => {
-            items.push(new ClassTreeItem(className, functions));
+        // Add class/namespace groups first; functions are already sorted, so each
+        // group's first function decides the order of groups (except by name)
+        const classNames = Array.from(grouped.keys());
+        if (this.options.sortOrder === 'name') {
+            classNames.sort((a, b) => a.localeCompare(b));
+        }
+        classNames.forEach(className => {
+            items.push(new ClassTreeItem(className, grouped.get(className)!, file));
         });
 
         // Add global functions
-        items.push(...this.createFunctionItems(globalFunctions));
+        items.push(...this.createFunctionItems(file, globalFunctions));
 
         return items;
     }
 
-    private createFunctionItems(functions: FunctionInfo[]): FunctionTreeItem[] {
-        const isDarkTheme = this.isDarkColorTheme();
-        const colorConfig: ColorConfig = {
-            baseColor: '#ffff00',
-            minLines: 5,
-            maxLines: 100
-        };
-
+    private createFunctionItems(file: FileFunctions, functions: FunctionInfo[]): FunctionTreeItem[] {
         return functions.map(func => {
             // Find the original index in the full functions array
-            const index = this.functions.indexOf(func);
+            const index = file.functions.indexOf(func);
 
-            const borderColor = this.colorCalculator.getBorderColor(
-                index,
-                func.lineCount,
-                colorConfig,
-                isDarkTheme
-            );
+            // Same color as the function's band in the editor
+            const borderColor = file.colors[index].border;
 
             // Create icon for this function (colored circle)
             const iconPath = this.createFunctionIcon(borderColor, index);
 
-            // Create command to jump to function
+            // Create command to jump to function; files that are not open are opened by URI
             const command: vscode.Command = {
                 command: 'functionHighlight.goToFunction',
                 title: 'Go to Function',
-                arguments: [func, this.currentDocument]
+                arguments: [func, file.document || file.uri]
             };
 
-            return new FunctionTreeItem(func, index, borderColor, iconPath, command);
+            return new FunctionTreeItem(func, file, index, iconPath, command, !this.options.grouped);
         });
     }
 
+    private isFiltering(): boolean {
+        return this.options.filterText.length > 0 || this.options.minLines > 0;
+    }
+
+    private matchesFilter(func: FunctionInfo): boolean {
+        if (func.lineCount <= this.options.minLines) {
+            return false;
+        }
+        const filterText = this.options.filterText.toLowerCase();
+        return !filterText || CppParser.getQualifiedName(func).toLowerCase().includes(filterText);
+    }
+
+    /**
+     * Sorted functions that match the filter or enclose a nested function that does
+     */
+    private getVisibleFunctions(functions: FunctionInfo[]): FunctionInfo[] {
+        const isVisible = (func: FunctionInfo): boolean => this.matchesFilter(func) || func.children.some(isVisible);
+        return this.sortFunctions(functions.filter(isVisible));
+    }
+
+    private sortFunctions(functions: FunctionInfo[]): FunctionInfo[] {
+        switch (this.options.sortOrder) {
+            case 'name':
+                return [...functions].sort((a, b) => a.name.localeCompare(b.name) || a.startLine - b.startLine);
+            case 'length':
+                // Longest first
+                return [...functions].sort((a, b) => b.lineCount - a.lineCount || a.startLine - b.startLine);
+            default:
+                return [...functions].sort((a, b) => a.startLine - b.startLine);
+        }
+    }
+
     private isDarkColorTheme(): boolean {
         const theme = vscode.window.activeColorTheme;
         return theme.kind === vscode.ColorThemeKind.Dark ||
@@ -170,24 +438,13 @@ export class FunctionTreeProvider implements vscode.TreeDataProvider<TreeElement
     private createFunctionIcon(color: string, index: number): vscode.Uri {
         // Create an icon with colored background and function number
         // The icon shows a colored rectangle background (like in the editor) with the number
-        const svgContent = `<svg xmlns="http://www.w3.org/2000/svg" width="80" height="16" viewBox="0 0 80 16">
+        const number = (index % 10) + 1;
+        return this.iconCache.getIcon(`func-icon-${color.substring(1)}-${number}`, () =>
+            `<svg xmlns="http://www.w3.org/2000/svg" width="80" height="16" viewBox="0 0 80 16">
             <rect x="0" y="0" width="80" height="16" fill="${color}" opacity="0.3" />
             <circle cx="8" cy="8" r="6" fill="${color}" stroke="${color}" stroke-width="1" />
-            <text x="8" y="11" font-family="Arial" font-size="8" font-weight="bold" fill="white" text-anchor="middle">${(index % 10) + 1}</text>
-        </svg>`;
-
-        const fileName = `func-icon-${color.substring(1)}-${index}.svg`;
-        const filePath = path.join(this.extensionContext.extensionPath, '.icons', fileName);
-
-        // Ensure .icons directory exists
-        const iconsDir = path.join(this.extensionContext.extensionPath, '.icons');
-        if (!fs.existsSync(iconsDir)) {
-            fs.mkdirSync(iconsDir, { recursive: true });
-        }
-
-        // Write SVG file
-        fs.writeFileSync(filePath, svgContent);
-
-        return vscode.Uri.file(filePath);
+            <text x="8" y="11" font-family="Arial" font-size="8" font-weight="bold" fill="white" text-anchor="middle">${number}</text>
+        </svg>`
+        );
     }
 }
@@ -0,0 +1,418 @@
+import { execFile } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FunctionInfo } from './parser';
+
+// Last change and churn of a function, taken from the local git repository
+export interface FunctionHistory {
+    commit: string;
+    author: string;
+    lastChanged: number; // Time of the newest change to the function's lines (ms since epoch)
+    uncommitted: boolean; // Some lines have changes that are not committed yet
+    commits?: number; // Number of commits that touched the function (churn), when requested
+}
+
+// The commit that last changed a line, from git blame
+interface BlameLine {
+    commit: string;
+    author: string;
+    time: number;
+}
+
+// Blame results of one file's contents at one commit
+interface FileHistory {
+    version: string; // HEAD commit and hash of the blamed contents
+    lines: BlameLine[];
+    contents: string[]; // The blamed lines
+    committedLines?: { churn: FileChurn, lines: (number | undefined)[] }; // Line of the committed file per line
+}
+
+// Commits that touched each line of one file as committed at HEAD, from git log
+interface FileChurn {
+    head: string;
+    lines: string[]; // The committed lines, to find them in edited contents
+    commits: number[][]; // Indices of the commits that touched each line
+    // Commits that changed lines between each line and the next line that existed at that commit
+    changedAfter: { commit: number, next: number }[][];
+}
+
+// A changed range of a diff, with 1-based line numbers as git prints them
+interface Hunk {
+    oldStart: number;
+    oldCount: number;
+    newStart: number;
+    newCount: number;
+}
+
+// Commit id git blame reports for lines that are not committed
+const UNCOMMITTED = '0000000000000000000000000000000000000000';
+
+/**
+ * Reads function history from the local git repository with git blame and
+ * git log. Blame runs on the given contents, e.g. an editor's unsaved text, so
+ * its lines match the parsed function ranges. Results are cached per file, commit
+ * and contents, so only the first update after a commit or edit runs git.
+ */
+export class GitHistory {
+    private cache: Map<string, FileHistory> = new Map(); // By file path
+    private churn: Map<string, FileChurn> = new Map(); // By file path
+    private pendingChurn: Map<string, Promise<boolean>> = new Map();
+    private pendingBlame: Map<string, { version: string, blame: Promise<FileHistory | undefined> }> = new Map(); // By file path
+    private untracked: Map<string, string> = new Map(); // HEAD commit each file was found untracked at, by file path
+    private notInRepository: Set<string> = new Set();
+
+    /**
+     * Get the history of each function of a file, or undefined when the file is not
+     * tracked in a git repository. The contents default to the saved file. Churn is
+     * only included when requested and once loadChurn() has read it for HEAD.
+     */
+    async getFunctionHistory(
+        filePath: string,
+        functions: FunctionInfo[],
+        includeChurn: boolean,
+        contents?: string
+    ): Promise<(FunctionHistory | undefined)[] | undefined> {
+        const directory = path.dirname(filePath);
+        if (this.notInRepository.has(directory)) {
+            return undefined;
+        }
+
+        let head: string;
+        let text: string;
+        try {
+            head = (await this.git(directory, ['rev-parse', 'HEAD'])).trim();
+            text = contents !== undefined ? contents : await fs.promises.readFile(filePath, 'utf8');
+        } catch {
+            this.notInRepository.add(directory);
+            return undefined;
+        }
+
+        // Untracked files have no history until a commit adds them
+        if (this.untracked.get(filePath) === head) {
+            return undefined;
+        }
+
+        // Only the latest commit and contents of each file are kept
+        const version = `${head}:${crypto.createHash('sha1').update(text).digest('hex')}`;
+        const cached = this.cache.get(filePath);
+        const fileHistory = cached && cached.version === version
+            ? cached
+            : await this.blame(filePath, head, version, text);
+        if (!fileHistory) {
+            return undefined;
+        }
+
+        const churn = includeChurn ? this.churn.get(filePath) : undefined;
+        const committedLines = churn && churn.head === head ? this.getCommittedLines(fileHistory, churn) : undefined;
+
+        return functions.map(func => {
+            const entry = this.summarize(fileHistory.lines, func.declarationLine, func.endLine);
+            if (entry && churn && committedLines) {
+                entry.commits = this.countCommits(churn, committedLines, func.declarationLine, func.endLine);
+            }
+            return entry;
+        });
+    }
+
+    /**
+     * Read which commits touched each line of a file with one git log over its
+     * history, once per HEAD commit. Resolves to true when new counts were read, so
+     * callers can draw without churn first and again once it is loaded.
+     */
+    loadChurn(filePath: string): Promise<boolean> {
+        let pending = this.pendingChurn.get(filePath);
+        if (!pending) {
+            pending = this.readChurn(filePath);
+            this.pendingChurn.set(filePath, pending);
+            const forget = () => this.pendingChurn.delete(filePath);
+            pending.then(forget, forget);
+        }
+        return pending;
+    }
+
+    /**
+     * Forget all cached results, e.g. after a repository was created or rewritten
+     */
+    clear(): void {
+        this.cache.clear();
+        this.churn.clear();
+        this.untracked.clear();
+        this.notInRepository.clear();
+    }
+
+    /**
+     * Blame one version of a file's contents. Updates that ask for the version
+     * already being blamed share its result instead of running git again.
+     */
+    private blame(filePath: string, head: string, version: string, text: string): Promise<FileHistory | undefined> {
+        const pending = this.pendingBlame.get(filePath);
+        if (pending && pending.version === version) {
+            return pending.blame;
+        }
+
+        const blame = this.readBlame(filePath, head, version, text);
+        this.pendingBlame.set(filePath, { version, blame });
+        const forget = () => {
+            const current = this.pendingBlame.get(filePath);
+            if (current && current.blame === blame) {
+                this.pendingBlame.delete(filePath);
+            }
+        };
+        blame.then(forget, forget);
+        return blame;
+    }
+
+    private async readBlame(filePath: string, head: string, version: string, text: string): Promise<FileHistory | undefined> {
+        try {
+            const blame = await this.git(path.dirname(filePath), ['blame', '--porcelain', '--contents', '-', '--', path.basename(filePath)], text);
+            const fileHistory: FileHistory = { version, lines: this.parseBlame(blame), contents: text.split(/\r?\n/) };
+            this.cache.set(filePath, fileHistory);
+            return fileHistory;
+        } catch {
+            // Untracked files have no history
+            this.untracked.set(filePath, head);
+            return undefined;
+        }
+    }
+
+    private summarize(lines: BlameLine[], startLine: number, endLine: number): FunctionHistory | undefined {
+        let newest: BlameLine | undefined;
+        let uncommitted = false;
+
+        for (let line = startLine; line <= endLine && line < lines.length; line++) {
+            const blame = lines[line];
+            if (blame.commit === UNCOMMITTED) {
+                uncommitted = true;
+            } else if (!newest || blame.time > newest.time) {
+                newest = blame;
+            }
+        }
+
+        if (!newest && !uncommitted) {
+            return undefined;
+        }
+        return {
+            commit: newest ? newest.commit : UNCOMMITTED,
+            author: newest ? newest.author : '',
+            lastChanged: uncommitted ? Date.now() : newest!.time,
+            uncommitted
+        };
+    }
+
+    private async readChurn(filePath: string): Promise<boolean> {
+        const directory = path.dirname(filePath);
+        const fileName = path.basename(filePath);
+        if (this.notInRepository.has(directory)) {
+            return false;
+        }
+
+        try {
+            const head = (await this.git(directory, ['rev-parse', 'HEAD'])).trim();
+            const cached = this.churn.get(filePath);
+            if (cached && cached.head === head) {
+                return false;
+            }
+
+            const lines = (await this.git(directory, ['show', `${head}:./${fileName}`])).split(/\r?\n/);
+            // Merges are diffed against their first parent only, so the diffs form a single line of history
+            const log = await this.git(directory, ['log', '-m', '--first-parent', '-p', '-U0', '--format=%x00%H', head, '--', fileName]);
+            this.churn.set(filePath, { head, lines, ...this.parseLineCommits(log, lines.length) });
+            return true;
+        } catch {
+            // Untracked files have no history
+            return false;
+        }
+    }
+
+    /**
+     * Walk the diffs of git log -p from the newest commit back, following each
+     * committed line to the lines it came from in older versions. A line that a hunk
+     * changed is followed to all lines the hunk replaced, and is no longer followed
+     * past the commit that added it. Like git log -L, a range also changes when lines
+     * between two of its lines change, so those changes are kept per pair of lines.
+     */
+    private parseLineCommits(log: string, lineCount: number): Pick<FileChurn, 'commits' | 'changedAfter'> {
+        const commits: number[][] = Array.from({ length: lineCount }, () => []);
+        const changedAfter: { commit: number, next: number }[][] = Array.from({ length: lineCount }, () => []);
+        // 1-based lines each line came from in the version after the commit being read; undefined once added
+        const ranges: ({ start: number, end: number } | undefined)[] = Array.from({ length: lineCount }, (_, line) => ({ start: line + 1, end: line + 1 }));
+        let commitIndex = -1;
+        let hunks: Hunk[] = [];
+
+        const applyHunks = () => {
+            // Lines after a hunk move by the lines it removed or added
+            const offsets = [0];
+            hunks.forEach(hunk => offsets.push(offsets[offsets.length - 1] + hunk.oldCount - hunk.newCount));
+
+            // Index of the first hunk that does not end before a line; a hunk without
+            // new lines removed lines after its start line
+            const findHunk = (line: number) => {
+                let low = 0;
+                let high = hunks.length;
+                while (low < high) {
+                    const middle = (low + high) >> 1;
+                    if (hunks[middle].newStart + Math.max(hunks[middle].newCount, 1) - 1 < line) {
+                        low = middle + 1;
+                    } else {
+                        high = middle;
+                    }
+                }
+                return low;
+            };
+            // Whether a hunk changed lines from start to end, or removed lines between them
+            const changes = (start: number, end: number) => {
+                for (let index = findHunk(start); index < hunks.length && hunks[index].newStart <= end; index++) {
+                    const hunk = hunks[index];
+                    if (hunk.newCount > 0 ? hunk.newStart + hunk.newCount - 1 >= start : hunk.newStart < end) {
+                        return true;
+                    }
+                }
+                return false;
+            };
+            // Whether a hunk changed or removed lines after one line and before another
+            const changesBetween = (after: number, before: number) => {
+                for (let index = findHunk(after); index < hunks.length && hunks[index].newStart < before; index++) {
+                    const hunk = hunks[index];
+                    if (hunk.newCount > 0 ? hunk.newStart + hunk.newCount - 1 > after : hunk.newStart >= after) {
+                        return true;
+                    }
+                }
+                return false;
+            };
+            const toOldLine = (line: number, edge: 'start' | 'end') => {
+                const index = findHunk(line);
+                const hunk = hunks[index];
+                if (!hunk || hunk.newCount === 0 || line < hunk.newStart) {
+                    return line + offsets[index];
+                }
+                // Added lines fall between the old lines around the hunk
+                if (hunk.oldCount === 0) {
+                    return edge === 'start' ? hunk.oldStart + 1 : hunk.oldStart;
+                }
+                return edge === 'start' ? hunk.oldStart : hunk.oldStart + hunk.oldCount - 1;
+            };
+
+            const followed = ranges.map((_, line) => line).filter(line => ranges[line]);
+            followed.forEach((line, index) => {
+                const range = ranges[line]!;
+                if (changes(range.start, range.end)) {
+                    commits[line].push(commitIndex);
+                }
+                const next = followed[index + 1];
+                if (next !== undefined && changesBetween(range.end, ranges[next]!.start)) {
+                    changedAfter[line].push({ commit: commitIndex, next });
+                }
+            });
+            followed.forEach(line => {
+                const start = toOldLine(ranges[line]!.start, 'start');
+                const end = toOldLine(ranges[line]!.end, 'end');
+                ranges[line] = start <= end ? { start, end } : undefined;
+            });
+        };
+
+        for (const line of log.split('\n')) {
+            if (line.startsWith('\0')) {
+                applyHunks();
+                commitIndex++;
+                hunks = [];
+                continue;
+            }
+            const hunk = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+            if (hunk) {
+                hunks.push({
+                    oldStart: parseInt(hunk[1], 10),
+                    oldCount: hunk[2] === undefined ? 1 : parseInt(hunk[2], 10),
+                    newStart: parseInt(hunk[3], 10),
+                    newCount: hunk[4] === undefined ? 1 : parseInt(hunk[4], 10)
+                });
+            }
+        }
+        applyHunks();
+
+        return { commits, changedAfter };
+    }
+
+    /**
+     * Find each line of the blamed contents in the committed file. Lines blamed on a
+     * commit are unchanged lines of HEAD in the same order, so they are matched in turn.
+     */
+    private getCommittedLines(fileHistory: FileHistory, churn: FileChurn): (number | undefined)[] {
+        if (fileHistory.committedLines && fileHistory.committedLines.churn === churn) {
+            return fileHistory.committedLines.lines;
+        }
+
+        let next = 0;
+        const lines = fileHistory.lines.map((blame, line) => {
+            if (blame.commit === UNCOMMITTED) {
+                return undefined;
+            }
+            for (let committed = next; committed < churn.lines.length; committed++) {
+                if (churn.lines[committed] === fileHistory.contents[line]) {
+                    next = committed + 1;
+                    return committed;
+                }
+            }
+            return undefined;
+        });
+        fileHistory.committedLines = { churn, lines };
+        return lines;
+    }
+
+    private countCommits(churn: FileChurn, committedLines: (number | undefined)[], startLine: number, endLine: number): number {
+        const functionLines = committedLines.slice(startLine, endLine + 1).filter((line): line is number => line !== undefined);
+        const lastLine = Math.max(...functionLines);
+        const commits: Set<number> = new Set();
+        functionLines.forEach(line => {
+            churn.commits[line].forEach(commit => commits.add(commit));
+            churn.changedAfter[line]
+                .filter(change => change.next <= lastLine)
+                .forEach(change => commits.add(change.commit));
+        });
+        return commits.size;
+    }
+
+    /**
+     * Parse git blame --porcelain output into one entry per line
+     */
+    private parseBlame(output: string): BlameLine[] {
+        const commits: Map<string, BlameLine> = new Map();
+        const lines: BlameLine[] = [];
+        let current: BlameLine | undefined;
+
+        for (const line of output.split('\n')) {
+            const header = /^([0-9a-f]{40}) \d+ \d+/.exec(line);
+            if (header) {
+                current = commits.get(header[1]);
+                if (!current) {
+                    current = { commit: header[1], author: '', time: 0 };
+                    commits.set(header[1], current);
+                }
+            } else if (!current) {
+                continue;
+            } else if (line.startsWith('author ')) {
+                current.author = line.substring('author '.length);
+            } else if (line.startsWith('author-time ')) {
+                current.time = parseInt(line.substring('author-time '.length), 10) * 1000;
+            } else if (line.startsWith('\t')) {
+                // The line content ends each entry
+                lines.push(current);
+            }
+        }
+
+        return lines;
+    }
+
+    private git(cwd: string, args: string[], input?: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const child = execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(stdout);
+                }
+            });
+            child.stdin?.end(input);
+        });
+    }
+}
@@ -0,0 +1,205 @@
+import { FunctionInfo } from './parser';
+
+// Shape of the gutter markers: arrow, bar and ball; a bracket; a thin rail; a rail
+// with a numbered badge on the declaration; or no markers at all
+export type GutterStyle = 'arrow' | 'bracket' | 'rail' | 'badge' | 'none';
+
+export interface GutterOptions {
+    style: GutterStyle;
+    barWidth: number; // Width of bars and rails, in the icon's 20-unit-high view box
+    nestingRails: boolean; // Draw a rail for every enclosing function next to the innermost one
+}
+
+export const DEFAULT_GUTTER_OPTIONS: GutterOptions = { style: 'arrow', barWidth: 4, nestingRails: true };
+
+// Where a line lies within a function
+export type GutterPart = 'start' | 'body' | 'end' | 'single';
+
+// One function's marker on a line
+export interface GutterSegment {
+    color: string;
+    part: GutterPart;
+    label: number; // Number shown by the badge style, as in the Functions view
+}
+
+// Markers drawn in the gutter of one line, outermost function first
+export interface GutterCell {
+    segments: GutterSegment[];
+}
+
+// A gutter icon: SVG shapes in a view box 20 units high and `width` units wide
+export interface GutterIcon {
+    width: number;
+    shapes: string;
+}
+
+const ICON_HEIGHT = 20;
+const ICON_MIN_WIDTH = 20;
+const MARKER_WIDTH = 14; // Room for the arrow and badge shapes
+
+/**
+ * Work out the gutter markers of every line. Functions are listed parents-first,
+ * so the innermost function containing a line is the last one that covers it.
+ */
+export function getGutterCells(lineCount: number, functions: FunctionInfo[], colors: string[], options: GutterOptions): (GutterCell | undefined)[] {
+    const cells: (GutterCell | undefined)[] = new Array(lineCount).fill(undefined);
+    if (options.style === 'none') {
+        return cells;
+    }
+
+    const innermost: (FunctionInfo | undefined)[] = new Array(lineCount).fill(undefined);
+    functions.forEach(func => {
+        for (let line = Math.max(func.declarationLine, 0); line <= Math.min(func.endLine, lineCount - 1); line++) {
+            innermost[line] = func;
+        }
+    });
+
+    const indexes = new Map(functions.map((func, index) => [func, index]));
+    const segment = (func: FunctionInfo, line: number): GutterSegment => {
+        const index = indexes.get(func) ?? 0;
+        const part: GutterPart = func.declarationLine === func.endLine ? 'single'
+            : line === func.declarationLine ? 'start'
+            : line === func.endLine ? 'end'
+            : 'body';
+        return { color: colors[index], part, label: (index % 10) + 1 };
+    };
+
+    innermost.forEach((func, line) => {
+        if (!func) {
+            return;
+        }
+        const segments = [segment(func, line)];
+        if (options.nestingRails) {
+            for (let parent = func.parent; parent && indexes.has(parent); parent = parent.parent) {
+                segments.unshift(segment(parent, line));
+            }
+        }
+        cells[line] = { segments };
+    });
+    return cells;
+}
+
+/**
+ * Key that is equal for cells drawn with the same icon
+ */
+export function getGutterCellKey(cell: GutterCell, options: GutterOptions): string {
+    const segments = cell.segments.map(segment =>
+        `${segment.part}${segment.color.substring(1)}${options.style === 'badge' ? segment.label : ''}`
+    );
+    return [options.style, getBarWidth(options), ...segments].join('-');
+}
+
+/**
+ * Draw the markers of a line. Enclosing functions get a rail each, side by side,
+ * and the innermost function is drawn in the configured style to their right.
+ */
+export function renderGutterIcon(cell: GutterCell, options: GutterOptions): GutterIcon {
+    const barWidth = getBarWidth(options);
+    const pitch = barWidth + 1;
+    const enclosing = cell.segments.slice(0, -1);
+    const inner = cell.segments[cell.segments.length - 1];
+
+    const innerWidth = options.style === 'arrow' || options.style === 'badge' ? MARKER_WIDTH
+        : options.style === 'bracket' ? barWidth + 4
+        : barWidth;
+    // A single marker is centered; with enclosing rails the icon grows to fit them
+    const railsWidth = enclosing.length * pitch;
+    const width = Math.max(ICON_MIN_WIDTH, 1 + railsWidth + innerWidth + 1);
+    const innerX = enclosing.length > 0 ? 1 + railsWidth : (width - innerWidth) / 2;
+
+    const shapes = enclosing.map((segment, level) => options.style === 'bracket'
+        ? drawBracket(segment, 1 + level * pitch, barWidth)
+        : drawRail(segment, 1 + level * pitch, barWidth)
+    );
+    shapes.push(drawMarker(inner, innerX, innerWidth, barWidth, options.style));
+    return { width, shapes: shapes.join('') };
+}
+
+/**
+ * A gutter icon as a standalone SVG file
+ */
+export function toSvgFile(icon: GutterIcon): string {
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${icon.width}" height="${ICON_HEIGHT}" viewBox="0 0 ${icon.width} ${ICON_HEIGHT}">${icon.shapes}</svg>`;
+}
+
+function getBarWidth(options: GutterOptions): number {
+    return Math.min(Math.max(Math.round(options.barWidth), 1), 8);
+}
+
+function drawMarker(segment: GutterSegment, x: number, width: number, barWidth: number, style: GutterStyle): string {
+    switch (style) {
+        case 'bracket':
+            return drawBracket(segment, x, barWidth);
+        case 'rail':
+            return drawRail(segment, x, barWidth);
+        case 'badge':
+            return drawBadge(segment, x, width, barWidth);
+        default:
+            return drawArrow(segment, x, width, barWidth);
+    }
+}
+
+function drawArrow(segment: GutterSegment, x: number, width: number, barWidth: number): string {
+    const color = segment.color;
+    const barX = x + (width - barWidth) / 2;
+    const ball = `<circle cx="${x + width / 2}" cy="16" r="${Math.max(barWidth, 3)}" fill="${color}" />`;
+    switch (segment.part) {
+        case 'start':
+            return `<polygon points="${x + 1},2 ${x + width - 1},10 ${x + 1},18" fill="${color}" stroke="${color}" stroke-width="1" />`;
+        case 'body':
+            return rect(barX, 0, barWidth, 20, color);
+        case 'end':
+            return rect(barX, 0, barWidth, 14, color) + ball;
+        case 'single': {
+            // Arrow, bar and ball side by side
+            const singleBarX = x + width - barWidth;
+            return `<polygon points="${x},2 ${singleBarX},10 ${x},18" fill="${color}" stroke="${color}" stroke-width="1" />` +
+                rect(singleBarX, 0, barWidth, 14, color) +
+                `<circle cx="${singleBarX + barWidth / 2}" cy="16" r="${Math.max(barWidth, 3)}" fill="${color}" />`;
+        }
+    }
+}
+
+function drawBracket(segment: GutterSegment, x: number, barWidth: number): string {
+    const color = segment.color;
+    const tick = barWidth + 4;
+    const top = rect(x, 2, tick, barWidth, color);
+    const bottom = rect(x, 18 - barWidth, tick, barWidth, color);
+    switch (segment.part) {
+        case 'start':
+            return rect(x, 2, barWidth, 18, color) + top;
+        case 'body':
+            return rect(x, 0, barWidth, 20, color);
+        case 'end':
+            return rect(x, 0, barWidth, 18, color) + bottom;
+        case 'single':
+            return rect(x, 2, barWidth, 16, color) + top + bottom;
+    }
+}
+
+function drawRail(segment: GutterSegment, x: number, barWidth: number): string {
+    const color = segment.color;
+    switch (segment.part) {
+        case 'start':
+            return rect(x, 2, barWidth, 18, color);
+        case 'body':
+            return rect(x, 0, barWidth, 20, color);
+        case 'end':
+            return rect(x, 0, barWidth, 18, color);
+        case 'single':
+            return rect(x, 2, barWidth, 16, color);
+    }
+}
+
+function drawBadge(segment: GutterSegment, x: number, width: number, barWidth: number): string {
+    if (segment.part === 'start' || segment.part === 'single') {
+        const cx = x + width / 2;
+        return `<circle cx="${cx}" cy="10" r="${width / 2}" fill="${segment.color}" />` +
+            `<text x="${cx}" y="14" font-family="Arial" font-size="11" font-weight="bold" fill="white" text-anchor="middle">${segment.label}</text>`;
+    }
+    return drawRail(segment, x + (width - barWidth) / 2, barWidth);
+}
+
+function rect(x: number, y: number, width: number, height: number, color: string): string {
+    return `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${color}" />`;
+}
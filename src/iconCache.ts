@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+
+// Icons not written for this long are deleted when the cache is set up
+const MAX_ICON_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * SVG icons for gutters, the Functions view and pickers, stored in the extension's
+ * global storage folder. Each icon is written the first time it is requested in a
+ * session and its URI is reused afterwards, so redrawing does not touch the disk and
+ * the extension folder itself may be read-only.
+ */
+export class IconCache implements vscode.Disposable {
+    private icons: Map<string, vscode.Uri> = new Map(); // By file name
+    private directory: string;
+
+    constructor(storageUri: vscode.Uri) {
+        this.directory = path.join(storageUri.fsPath, 'icons');
+        this.removeUnusedIcons();
+    }
+
+    /**
+     * URI of the icon with the given name, writing its SVG content on first use
+     */
+    getIcon(name: string, createSvg: () => string): vscode.Uri {
+        const cached = this.icons.get(name);
+        if (cached) {
+            return cached;
+        }
+
+        const svg = createSvg();
+        const filePath = path.join(this.directory, `${name}.svg`);
+        let uri: vscode.Uri;
+        try {
+            fs.mkdirSync(this.directory, { recursive: true });
+            fs.writeFileSync(filePath, svg);
+            uri = vscode.Uri.file(filePath);
+        } catch (error) {
+            // Fall back to an inline icon when the storage folder cannot be written
+            console.error(`Error writing icon ${filePath}:`, error);
+            uri = vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+        }
+
+        this.icons.set(name, uri);
+        return uri;
+    }
+
+    dispose(): void {
+        this.icons.clear();
+    }
+
+    /**
+     * Delete icons of colors and markers that are no longer used. Every session rewrites
+     * the icons it uses, so icons not written recently were not used by any window
+     * started since; the folder is shared with other windows, so newer icons are kept.
+     */
+    private removeUnusedIcons(): void {
+        let names: string[];
+        try {
+            names = fs.readdirSync(this.directory);
+        } catch {
+            // No icons were written yet
+            return;
+        }
+
+        const now = Date.now();
+        names.filter(name => name.endsWith('.svg')).forEach(name => {
+            const filePath = path.join(this.directory, name);
+            try {
+                if (now - fs.statSync(filePath).mtimeMs > MAX_ICON_AGE) {
+                    fs.unlinkSync(filePath);
+                }
+            } catch (error) {
+                console.error(`Error removing icon ${filePath}:`, error);
+            }
+        });
+    }
+}
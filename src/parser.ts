@@ -1,4 +1,5 @@
 const TreeSitter = require('web-tree-sitter');
+import * as fs from 'fs';
 import * as path from 'path';
 
 export interface FunctionInfo {
@@ -8,11 +9,51 @@ export interface FunctionInfo {
     lineCount: number;
     declarationLine: number; // Line where the function is declared
     className?: string; // Optional class/namespace name
+    parent?: FunctionInfo; // Enclosing function for nested functions/closures
+    children: FunctionInfo[]; // Functions nested directly inside this one
+    depth: number; // Nesting depth (0 for top-level functions)
+    metrics: FunctionMetrics;
+}
+
+// Complexity metrics of a function, counted from its syntax tree.
+// Code inside nested functions counts towards the nested function only.
+export interface FunctionMetrics {
+    cyclomaticComplexity: number; // 1 + decision points (conditions, loops, case arms, catches, && / ||)
+    maxNesting: number; // Deepest nesting of control-flow blocks
+    parameterCount: number;
+    returnCount: number;
+    commentRatio: number; // Share of the function's lines holding comments (0-1)
+}
+
+// Describes a single text change, in the shape tree-sitter's Tree.edit expects.
+// Indices and columns are in UTF-16 code units, matching VS Code document offsets.
+export interface TextEdit {
+    startIndex: number;
+    oldEndIndex: number;
+    newEndIndex: number;
+    startPosition: { row: number, column: number };
+    oldEndPosition: { row: number, column: number };
+    newEndPosition: { row: number, column: number };
 }
 
 type Parser = any;
 type SyntaxNode = any;
 type Language = any;
+type Tree = any;
+type Query = any;
+
+// A function found in a previous parse, keyed by the id of its syntax node
+interface CachedFunction {
+    info: FunctionInfo;
+    className?: string; // Class context inherited from the enclosing nodes
+}
+
+// Per-document parse state used for incremental re-parsing
+interface DocumentState {
+    tree: Tree;
+    grammarName: string;
+    functionNodes: Map<number, CachedFunction>;
+}
 
 // Mapping from VS Code language IDs to tree-sitter grammar names
 const LANGUAGE_GRAMMAR_MAP: { [key: string]: string } = {
@@ -30,275 +71,584 @@ const LANGUAGE_GRAMMAR_MAP: { [key: string]: string } = {
     'php': 'php',
     'csharp': 'c_sharp',
     'bash': 'bash',
-    'json': 'json',
-    'yaml': 'yaml',
-    'css': 'css'
+    'shellscript': 'bash', // VS Code's language ID for shell scripts
+    'kotlin': 'kotlin',
+    'swift': 'swift',
+    'lua': 'lua',
+    'scala': 'scala',
+    'zig': 'zig',
+    'haskell': 'haskell'
 };
 
-// Node types that represent function definitions across different languages
-const FUNCTION_NODE_TYPES: { [key: string]: string[] } = {
-    'c': ['function_definition'],
-    'cpp': ['function_definition'],
-    'python': ['function_definition'],
-    'javascript': ['function_declaration', 'function', 'method_definition', 'arrow_function'],
-    'typescript': ['function_declaration', 'function', 'method_definition', 'arrow_function'],
-    'tsx': ['function_declaration', 'function', 'method_definition', 'arrow_function'],
-    'java': ['method_declaration', 'constructor_declaration'],
-    'rust': ['function_item'],
-    'go': ['function_declaration', 'method_declaration'],
-    'ruby': ['method', 'singleton_method'],
-    'php': ['function_definition', 'method_declaration'],
-    'c_sharp': ['method_declaration', 'constructor_declaration'],
-    'bash': ['function_definition'],
-    'json': [],
-    'yaml': [],
-    'css': []
+// Language IDs by file extension, for files that have no VS Code language ID at hand
+const EXTENSION_LANGUAGE_MAP: { [extension: string]: string } = {
+    'c': 'c',
+    'h': 'c',
+    'cc': 'cpp',
+    'cpp': 'cpp',
+    'cxx': 'cpp',
+    'hh': 'cpp',
+    'hpp': 'cpp',
+    'hxx': 'cpp',
+    'py': 'python',
+    'js': 'javascript',
+    'mjs': 'javascript',
+    'cjs': 'javascript',
+    'jsx': 'javascriptreact',
+    'ts': 'typescript',
+    'mts': 'typescript',
+    'cts': 'typescript',
+    'tsx': 'typescriptreact',
+    'java': 'java',
+    'rs': 'rust',
+    'go': 'go',
+    'rb': 'ruby',
+    'php': 'php',
+    'cs': 'csharp',
+    'sh': 'bash',
+    'bash': 'bash',
+    'kt': 'kotlin',
+    'kts': 'kotlin',
+    'swift': 'swift',
+    'lua': 'lua',
+    'scala': 'scala',
+    'sc': 'scala',
+    'zig': 'zig',
+    'hs': 'haskell'
 };
 
+// A grammar registered by the user for a language. Functions are found either by
+// a query file using the bundled captures, or by a query generated from node types.
+export interface CustomGrammar {
+    wasmPath: string; // Absolute path of the tree-sitter .wasm grammar
+    queryPath?: string; // Absolute path of a function query (.scm)
+    functionTypes?: string[]; // Node types of functions; they need a 'name' field
+    containerTypes?: string[]; // Node types of classes/namespaces; they need a 'name' field
+}
+
+// Folder holding the bundled grammars and their function queries
+const GRAMMARS_DIR = path.join(__dirname, '../grammars');
+
+// Query captures that feed the complexity metrics
+const METRIC_CAPTURES = ['branch', 'nesting', 'return', 'parameters', 'parameter', 'comment'];
+
+// A function, container or metric node found by a language's function query
+interface QueryEntry {
+    kind: 'function' | 'container' | 'metric';
+    node: SyntaxNode;
+    name: string;
+    body?: SyntaxNode;
+    scope?: string;
+    metrics?: Set<string>; // Metric captures on the node
+}
+
+// Metric counts gathered for a function while walking the query entries
+interface MetricCounts {
+    branches: number;
+    maxNesting: number;
+    returns: number;
+    parameters?: number;
+    commentLines: Set<number>;
+}
+
 export class CppParser {
     private parser: Parser | null = null;
     private languageCache: Map<string, Language> = new Map();
+    private queryCache: Map<string, Query> = new Map();
+    private queryDirectories: string[] = [];
+    private customGrammars: Map<string, CustomGrammar> = new Map();
+    private loadErrors: Map<string, string> = new Map();
     private currentLanguageId: string | null = null;
+    private documentStates: Map<string, DocumentState> = new Map();
 
     async initialize(): Promise<void> {
         await TreeSitter.Parser.init();
         this.parser = new TreeSitter.Parser();
     }
 
+    /**
+     * Set folders that are searched for tree-sitter-<grammar>.scm function queries
+     * before the queries bundled in the grammars folder
+     */
+    setQueryDirectories(directories: string[]): void {
+        this.queryDirectories = directories;
+        this.queryCache.forEach(query => query.delete());
+        this.queryCache.clear();
+        this.loadErrors.clear();
+
+        // Functions cached from earlier parses may have been found by other queries
+        this.documentStates.forEach(state => state.functionNodes.clear());
+    }
+
+    /**
+     * Register user grammars by VS Code language ID. They take precedence over the
+     * bundled grammars; anything loaded for the previous registrations is dropped.
+     */
+    setCustomGrammars(grammars: { [languageId: string]: CustomGrammar }): void {
+        this.customGrammars.forEach((_, languageId) => {
+            const grammarName = this.getGrammarName(languageId)!;
+            this.languageCache.delete(grammarName);
+            const query = this.queryCache.get(grammarName);
+            if (query) {
+                query.delete();
+                this.queryCache.delete(grammarName);
+            }
+        });
+        this.documentStates.forEach((state, documentKey) => {
+            if (state.grammarName.startsWith('custom:')) {
+                this.releaseDocument(documentKey);
+            }
+        });
+
+        this.customGrammars = new Map(Object.entries(grammars));
+        this.loadErrors.clear();
+        if (this.currentLanguageId && this.customGrammars.has(this.currentLanguageId)) {
+            this.currentLanguageId = null;
+        }
+    }
+
+    /**
+     * Get the reason the grammar or function query of a language failed to load, if it did
+     */
+    getLoadError(languageId: string): string | undefined {
+        const grammarName = this.getGrammarName(languageId);
+        return grammarName ? this.loadErrors.get(grammarName) : undefined;
+    }
+
     async setLanguage(languageId: string): Promise<boolean> {
-        const grammarName = LANGUAGE_GRAMMAR_MAP[languageId];
-        if (!grammarName) {
+        const grammarName = this.getGrammarName(languageId);
+        if (!grammarName || this.loadErrors.has(grammarName)) {
             return false;
         }
 
-        // Check if we already have this language loaded
-        if (this.languageCache.has(grammarName)) {
-            const language = this.languageCache.get(grammarName)!;
-            this.parser!.setLanguage(language);
-            this.currentLanguageId = languageId;
-            return true;
-        }
+        const customGrammar = this.customGrammars.get(languageId);
 
-        // Try to load the language grammar
         try {
-            const langPath = path.join(__dirname, `../grammars/tree-sitter-${grammarName}.wasm`);
-            const language = await TreeSitter.Language.load(langPath);
-            this.languageCache.set(grammarName, language);
+            // Check if we already have this language loaded, otherwise load the grammar
+            let language = this.languageCache.get(grammarName);
+            if (!language) {
+                const langPath = customGrammar
+                    ? customGrammar.wasmPath
+                    : path.join(GRAMMARS_DIR, `tree-sitter-${grammarName}.wasm`);
+                language = await TreeSitter.Language.load(langPath);
+                this.languageCache.set(grammarName, language);
+            }
+
+            if (customGrammar) {
+                this.loadCustomQuery(grammarName, language, customGrammar);
+            } else {
+                await this.loadQuery(grammarName, language);
+            }
             this.parser!.setLanguage(language);
             this.currentLanguageId = languageId;
             return true;
         } catch (error) {
+            // Remember the failure so the grammar is not reloaded on every parse
             console.error(`Failed to load grammar for ${languageId}:`, error);
+            this.loadErrors.set(grammarName, error instanceof Error ? error.message : String(error));
             return false;
         }
     }
 
-    parseFunctions(sourceCode: string): FunctionInfo[] {
+    private getGrammarName(languageId: string): string | undefined {
+        return this.customGrammars.has(languageId) ? `custom:${languageId}` : LANGUAGE_GRAMMAR_MAP[languageId];
+    }
+
+    /**
+     * Load the function query of a grammar, preferring user query folders over the
+     * bundled query. A user query that fails to compile is skipped.
+     */
+    private async loadQuery(grammarName: string, language: Language): Promise<Query> {
+        const cached = this.queryCache.get(grammarName);
+        if (cached) {
+            return cached;
+        }
+
+        for (const directory of [...this.queryDirectories, GRAMMARS_DIR]) {
+            const queryPath = path.join(directory, `tree-sitter-${grammarName}.scm`);
+            let source: string;
+            try {
+                source = await fs.promises.readFile(queryPath, 'utf8');
+            } catch {
+                continue;
+            }
+
+            try {
+                const query = new TreeSitter.Query(language, source);
+                this.queryCache.set(grammarName, query);
+                return query;
+            } catch (error) {
+                console.error(`Invalid function query ${queryPath}:`, error);
+            }
+        }
+
+        throw new Error(`No function query found for ${grammarName}`);
+    }
+
+    /**
+     * Load the function query of a user grammar from its query file, or generate
+     * one from its function and container node types
+     */
+    private loadCustomQuery(grammarName: string, language: Language, grammar: CustomGrammar): Query {
+        const cached = this.queryCache.get(grammarName);
+        if (cached) {
+            return cached;
+        }
+
+        let source: string;
+        if (grammar.queryPath) {
+            source = fs.readFileSync(grammar.queryPath, 'utf8');
+        } else if (grammar.functionTypes && grammar.functionTypes.length > 0) {
+            if (language.fieldIdForName('name') === null) {
+                throw new Error('The grammar has no "name" field; provide a query file instead of node types');
+            }
+            const body = language.fieldIdForName('body') !== null ? ' body: (_)? @body' : '';
+            source = [
+                ...grammar.functionTypes.map(type => `(${type} name: (_) @name${body}) @function`),
+                ...(grammar.containerTypes || []).map(type => `(${type} name: (_) @name) @container`),
+                // Comment ratio is the only metric that needs no knowledge of the grammar
+                ...(language.idForNodeType('comment', true) !== null ? ['(comment) @comment'] : [])
+            ].join('\n');
+        } else {
+            throw new Error('Specify either a query file or the function node types');
+        }
+
+        try {
+            const query = new TreeSitter.Query(language, source);
+            this.queryCache.set(grammarName, query);
+            return query;
+        } catch (error) {
+            const origin = grammar.queryPath || 'the generated query';
+            throw new Error(`Invalid function query in ${origin}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Apply a text change to the cached tree of a document so the next
+     * parseFunctions call for it can re-parse incrementally.
+     * Edits must be applied in the order they were made to the document.
+     */
+    applyEdit(documentKey: string, edit: TextEdit): void {
+        const state = this.documentStates.get(documentKey);
+        if (state) {
+            state.tree.edit(edit);
+        }
+    }
+
+    /**
+     * Drop the cached tree of a document (e.g. when it is closed)
+     */
+    releaseDocument(documentKey: string): void {
+        const state = this.documentStates.get(documentKey);
+        if (state) {
+            state.tree.delete();
+            this.documentStates.delete(documentKey);
+        }
+    }
+
+    /**
+     * Parse the functions of a source file using the language's function query.
+     * When a document key is given, the syntax tree is kept for that document and
+     * later calls re-parse incrementally from the edits passed to applyEdit.
+     * Functions whose syntax nodes were not touched by those edits are reused
+     * from the previous result instead of being recomputed.
+     */
+    parseFunctions(sourceCode: string, documentKey?: string): FunctionInfo[] {
         if (!this.parser || !this.currentLanguageId) {
             throw new Error('Parser not initialized');
         }
 
-        const tree = this.parser.parse(sourceCode);
-        const functions: FunctionInfo[] = [];
+        // Get the grammar name for looking up the function query
+        const grammarName = this.getGrammarName(this.currentLanguageId)!;
+        const query = this.queryCache.get(grammarName);
+        if (!query) {
+            throw new Error(`No function query loaded for ${grammarName}`);
+        }
 
-        // Get the grammar name for looking up function node types
-        const grammarName = LANGUAGE_GRAMMAR_MAP[this.currentLanguageId];
-        const functionNodeTypes = FUNCTION_NODE_TYPES[grammarName] || [];
+        // Reuse the previous tree of this document if it was parsed with the same grammar
+        let previousState = documentKey ? this.documentStates.get(documentKey) : undefined;
+        if (previousState && previousState.grammarName !== grammarName) {
+            this.releaseDocument(documentKey!);
+            previousState = undefined;
+        }
 
-        const findFunctions = (node: SyntaxNode, className?: string) => {
-            // Track class/namespace context
-            let currentClassName = className;
+        const tree = this.parser.parse(sourceCode, previousState ? previousState.tree : null);
+        const functions: FunctionInfo[] = [];
+        const functionNodes: Map<number, CachedFunction> = new Map();
+
+        // Ranges whose syntactic structure differs from the previous tree
+        const changedRanges: { startIndex: number, endIndex: number }[] =
+            previousState ? previousState.tree.getChangedRanges(tree) : [];
+        const isUnchanged = (node: SyntaxNode): boolean => !changedRanges.some(range =>
+            node.startIndex <= range.endIndex && range.startIndex <= node.endIndex
+        );
+
+        // Walk the query results in source order, keeping a stack of the containers,
+        // functions and nesting blocks that enclose the current node
+        const enclosing: { entry: QueryEntry, info?: FunctionInfo, counts?: MetricCounts }[] = [];
+        const measured: { info: FunctionInfo, counts: MetricCounts }[] = [];
+
+        for (const entry of this.collectQueryEntries(query, tree.rootNode)) {
+            while (enclosing.length > 0 && enclosing[enclosing.length - 1].entry.node.endIndex < entry.node.endIndex) {
+                enclosing.pop();
+            }
 
-            // Check if this node is a class/struct/namespace
-            if (node.type === 'class_specifier' || node.type === 'struct_specifier' ||
-                node.type === 'class_declaration' || node.type === 'interface_declaration' ||
-                node.type === 'namespace_definition' || node.type === 'impl_item' ||
-                node.type === 'trait_item' || node.type === 'class_definition') {
+            if (entry.kind === 'container') {
+                enclosing.push({ entry });
+                continue;
+            }
 
-                // Try to get the class/namespace name
-                const classNameNode = node.childForFieldName('name');
-                if (classNameNode) {
-                    currentClassName = classNameNode.text;
+            if (entry.kind === 'metric') {
+                // Metric nodes count towards the innermost enclosing function, unless
+                // that function was reused from the previous parse
+                const ownerIndex = enclosing.map(item => !!item.info).lastIndexOf(true);
+                const counts = ownerIndex >= 0 ? enclosing[ownerIndex].counts : undefined;
+                if (counts) {
+                    this.countMetrics(counts, entry, enclosing.slice(ownerIndex + 1).filter(item => item.entry.kind === 'metric').length);
+                }
+                if (entry.metrics!.has('nesting')) {
+                    enclosing.push({ entry });
                 }
+                continue;
             }
 
-            // Check if this node is a function definition for the current language
-            if (functionNodeTypes.includes(node.type)) {
-                const nameNode = this.findFunctionName(node, grammarName);
-                const bodyNode = this.getFunctionBody(node, grammarName);
-
-                if (bodyNode && nameNode) {
-                    const startLine = bodyNode.startPosition.row;
-                    const endLine = bodyNode.endPosition.row;
-                    const lineCount = endLine - startLine + 1;
+            // Functions inherit the innermost container name unless the query gives an explicit scope
+            const container = [...enclosing].reverse().find(item => item.entry.kind === 'container');
+            const className = entry.scope || (container ? container.entry.name : undefined);
+            const parentItem = [...enclosing].reverse().find(item => item.info);
+            const parentFunction = parentItem ? parentItem.info : undefined;
+            const depth = parentFunction ? parentFunction.depth + 1 : 0;
+
+            // Reuse functions whose syntax node survived the incremental parse unchanged,
+            // as long as they still sit in the same class and nesting context
+            const cached = previousState ? previousState.functionNodes.get(entry.node.id) : undefined;
+            let functionInfo: FunctionInfo;
+            let counts: MetricCounts | undefined;
+
+            if (cached && cached.className === className && cached.info.depth === depth && isUnchanged(entry.node)) {
+                const lineDelta = entry.node.startPosition.row - cached.info.declarationLine;
+                functionInfo = {
+                    ...cached.info,
+                    startLine: cached.info.startLine + lineDelta,
+                    endLine: cached.info.endLine + lineDelta,
+                    declarationLine: cached.info.declarationLine + lineDelta,
+                    parent: parentFunction,
+                    children: []
+                };
+            } else {
+                const bodyNode = entry.body || entry.node;
+                const startLine = bodyNode.startPosition.row;
+                const endLine = bodyNode.endPosition.row;
+
+                functionInfo = {
+                    name: entry.name,
+                    startLine,
+                    endLine,
+                    lineCount: endLine - startLine + 1,
                     // The declaration line is where the function node starts
-                    const declarationLine = node.startPosition.row;
-
-                    // For C/C++, check if this is an out-of-class method definition
-                    let effectiveClassName = currentClassName;
-                    if (grammarName === 'c' || grammarName === 'cpp') {
-                        const declarator = node.childForFieldName('declarator');
-                        if (declarator && declarator.type === 'function_declarator') {
-                            const identifier = declarator.childForFieldName('declarator');
-                            if (identifier && identifier.type === 'qualified_identifier') {
-                                // This is an out-of-class definition like MyClass::method()
-                                const className = this.getClassNameFromQualifiedIdentifier(identifier);
-                                if (className) {
-                                    effectiveClassName = className;
-                                }
-                            }
-                        }
+                    declarationLine: entry.node.startPosition.row,
+                    className,
+                    parent: parentFunction,
+                    children: [],
+                    depth,
+                    metrics: {
+                        cyclomaticComplexity: 1,
+                        maxNesting: 0,
+                        parameterCount: 0,
+                        returnCount: 0,
+                        commentRatio: 0
                     }
-
-                    functions.push({
-                        name: nameNode.text,
-                        startLine,
-                        endLine,
-                        lineCount,
-                        declarationLine,
-                        className: effectiveClassName
-                    });
-                }
+                };
+                counts = { branches: 0, maxNesting: 0, returns: 0, commentLines: new Set() };
+                measured.push({ info: functionInfo, counts });
             }
 
-            // Recurse through children, passing down the class context
-            for (const child of node.children) {
-                findFunctions(child, currentClassName);
+            if (parentFunction) {
+                parentFunction.children.push(functionInfo);
             }
-        };
+            functions.push(functionInfo);
+            functionNodes.set(entry.node.id, { info: functionInfo, className });
+            enclosing.push({ entry, info: functionInfo, counts });
+        }
+
+        measured.forEach(({ info, counts }) => {
+            info.metrics = {
+                cyclomaticComplexity: 1 + counts.branches,
+                maxNesting: counts.maxNesting,
+                parameterCount: counts.parameters || 0,
+                returnCount: counts.returns,
+                commentRatio: Math.min(1, counts.commentLines.size / (info.endLine - info.declarationLine + 1))
+            };
+        });
+
+        // Keep the new tree for the next incremental parse of this document
+        if (previousState) {
+            previousState.tree.delete();
+        }
+        if (documentKey) {
+            this.documentStates.set(documentKey, { tree, grammarName, functionNodes });
+        } else {
+            tree.delete();
+        }
 
-        findFunctions(tree.rootNode);
         return functions;
     }
 
-    private extractMethodNameFromQualifiedIdentifier(qualifiedId: SyntaxNode): SyntaxNode | null {
-        // Extract method name from qualified_identifier (e.g., MyClass::method returns "method")
-        // For nested qualifiers like gdb::debugger::step, recursively search for the identifier
-        for (const child of qualifiedId.children) {
-            if (child.type === 'identifier') {
-                return child;
-            } else if (child.type === 'qualified_identifier') {
-                // Recursively search nested qualified identifiers
-                const nestedName = this.extractMethodNameFromQualifiedIdentifier(child);
-                if (nestedName) {
-                    return nestedName;
+    /**
+     * Run a function query and turn its matches into function, container and metric
+     * entries, sorted in source order with enclosing nodes before the nodes they contain.
+     *
+     * Captures: @function (whole function), @name, @body (optional, defaults to
+     * @function), @scope (optional explicit container name), @container
+     * (a class/struct/namespace whose @name is the container name), and the
+     * metric captures @branch, @nesting, @return, @parameters, @parameter and @comment.
+     */
+    private collectQueryEntries(query: Query, rootNode: SyntaxNode): QueryEntry[] {
+        const entries: QueryEntry[] = [];
+        const seen = new Set<string>();
+        const metricEntries: Map<number, QueryEntry> = new Map();
+
+        for (const match of query.matches(rootNode)) {
+            const captures: { [name: string]: SyntaxNode } = {};
+            for (const capture of match.captures) {
+                if (!captures[capture.name]) {
+                    captures[capture.name] = capture.node;
                 }
             }
-        }
-        return null;
-    }
 
-    private getClassNameFromQualifiedIdentifier(qualifiedId: SyntaxNode): string | undefined {
-        // Extract class name from qualified_identifier (e.g., MyClass::method or ns::MyClass::method)
-        // For nested qualifiers like gdb::debugger::step, we want the innermost namespace_identifier
-        let className: string | undefined = undefined;
-
-        for (const child of qualifiedId.children) {
-            if (child.type === 'namespace_identifier') {
-                className = child.text;
-            } else if (child.type === 'qualified_identifier') {
-                // Recursively handle nested qualified identifiers
-                const nestedClassName = this.getClassNameFromQualifiedIdentifier(child);
-                if (nestedClassName) {
-                    className = nestedClassName;
+            // Metric captures of one node from several patterns are merged into one entry
+            for (const metric of METRIC_CAPTURES) {
+                const metricNode = captures[metric];
+                if (!metricNode) {
+                    continue;
                 }
+                let metricEntry = metricEntries.get(metricNode.id);
+                if (!metricEntry) {
+                    metricEntry = { kind: 'metric', node: metricNode, name: '', metrics: new Set() };
+                    metricEntries.set(metricNode.id, metricEntry);
+                    entries.push(metricEntry);
+                }
+                metricEntry.metrics!.add(metric);
+            }
+
+            const node = captures.function || captures.container;
+            if (!node || !captures.name) {
+                continue;
+            }
+
+            // A node matched by several patterns is only listed once
+            const kind = captures.function ? 'function' : 'container';
+            const key = `${kind}:${node.id}`;
+            if (seen.has(key)) {
+                continue;
             }
+            seen.add(key);
+
+            entries.push({
+                kind,
+                node,
+                name: captures.name.text,
+                body: captures.body,
+                scope: captures.scope ? captures.scope.text : undefined
+            });
         }
 
-        return className;
+        const kindOrder = { container: 0, function: 1, metric: 2 };
+        return entries.sort((a, b) =>
+            a.node.startIndex - b.node.startIndex ||
+            b.node.endIndex - a.node.endIndex ||
+            kindOrder[a.kind] - kindOrder[b.kind]
+        );
     }
 
-    private getFunctionBody(node: SyntaxNode, grammarName: string): SyntaxNode | null {
-        const bodyNode = node.childForFieldName('body');
-        if (bodyNode) {
-            return bodyNode;
-        }
+    /**
+     * Add a metric node to the counts of the function it belongs to.
+     * nestingLevel is the number of nesting blocks between the function and the node.
+     */
+    private countMetrics(counts: MetricCounts, entry: QueryEntry, nestingLevel: number): void {
+        const node = entry.node;
+        const metrics = entry.metrics!;
 
-        // For some languages, we might need to look for specific child types
-        if (grammarName === 'javascript' || grammarName === 'typescript' || grammarName === 'tsx') {
-            // Arrow functions might have expression bodies
-            for (const child of node.children) {
-                if (child.type === 'statement_block' || child.type === 'expression') {
-                    return child;
-                }
+        if (metrics.has('branch')) {
+            counts.branches++;
+        }
+        if (metrics.has('nesting')) {
+            counts.maxNesting = Math.max(counts.maxNesting, nestingLevel + 1);
+        }
+        if (metrics.has('return')) {
+            counts.returns++;
+        }
+        if (metrics.has('parameter')) {
+            counts.parameters = (counts.parameters || 0) + 1;
+        }
+        if (metrics.has('comment')) {
+            for (let line = node.startPosition.row; line <= node.endPosition.row; line++) {
+                counts.commentLines.add(line);
             }
         }
 
-        // Fallback: use the entire node
-        return node;
+        // The first parameter list inside a function is its own; a lone parameter
+        // without a list (e.g. x => x) is a leaf node. C's f(void) has none.
+        if (metrics.has('parameters') && counts.parameters === undefined) {
+            counts.parameters = node.childCount === 0
+                ? 1
+                : node.namedChildren.filter((child: SyntaxNode) =>
+                    !child.type.includes('comment') && child.text !== 'void').length;
+        }
     }
 
-    private findFunctionName(node: SyntaxNode, grammarName: string): SyntaxNode | null {
-        // Try to get the name field first (works for many languages)
-        const nameNode = node.childForFieldName('name');
-        if (nameNode && nameNode.type === 'identifier') {
-            return nameNode;
+    /**
+     * Name with the class/namespace and enclosing functions, e.g. "Parser::parse::visit"
+     */
+    static getQualifiedName(func: FunctionInfo): string {
+        const names: string[] = [];
+        for (let current: FunctionInfo | undefined = func; current; current = current.parent) {
+            names.unshift(current.name);
         }
+        if (func.className) {
+            names.unshift(func.className);
+        }
+        return names.join('::');
+    }
 
-        // Language-specific handling
-        if (grammarName === 'c' || grammarName === 'cpp') {
-            const declarator = node.childForFieldName('declarator');
-            if (!declarator) return null;
-
-            // Handle different declarator types
-            let current = declarator;
-            while (current) {
-                if (current.type === 'function_declarator') {
-                    const identifier = current.childForFieldName('declarator');
-                    if (identifier) {
-                        // Handle qualified identifiers (e.g., MyClass::method or ns::MyClass::method)
-                        if (identifier.type === 'qualified_identifier') {
-                            return this.extractMethodNameFromQualifiedIdentifier(identifier);
-                        }
-                        // Accept both identifier and field_identifier (for class methods)
-                        if (identifier.type === 'identifier' || identifier.type === 'field_identifier') {
-                            return identifier;
-                        }
-                        current = identifier;
-                    } else {
-                        break;
-                    }
-                } else if (current.type === 'identifier' || current.type === 'field_identifier') {
-                    return current;
-                } else if (current.type === 'pointer_declarator' ||
-                           current.type === 'reference_declarator') {
-                    current = current.childForFieldName('declarator') || current.children[1];
-                } else {
-                    break;
-                }
-            }
-        } else if (grammarName === 'python' || grammarName === 'ruby') {
-            // Python and Ruby use 'name' field
-            return node.childForFieldName('name');
-        } else if (grammarName === 'javascript' || grammarName === 'typescript' || grammarName === 'tsx') {
-            // JavaScript/TypeScript can have various name locations
-            const name = node.childForFieldName('name');
-            if (name) return name;
-
-            // For arrow functions, might be in parent assignment
-            for (const child of node.children) {
-                if (child.type === 'identifier') {
-                    return child;
-                }
+    /**
+     * Get the VS Code language ID of a bundled language from a file's extension
+     */
+    static getLanguageIdForFile(filePath: string): string | undefined {
+        const extension = path.extname(filePath).substring(1).toLowerCase();
+        return EXTENSION_LANGUAGE_MAP[extension];
+    }
+
+    /**
+     * VS Code language IDs of the bundled grammars
+     */
+    static getSupportedLanguageIds(): string[] {
+        return Object.keys(LANGUAGE_GRAMMAR_MAP);
+    }
+
+    static getSupportedExtensions(): string[] {
+        return Object.keys(EXTENSION_LANGUAGE_MAP);
+    }
+
+    /**
+     * Get the line ranges of a function body that are not covered by its nested functions
+     */
+    static getExclusiveRanges(func: FunctionInfo): { startLine: number, endLine: number }[] {
+        const ranges: { startLine: number, endLine: number }[] = [];
+        let nextLine = func.startLine;
+
+        const children = [...func.children].sort((a, b) => a.startLine - b.startLine);
+        for (const child of children) {
+            if (child.startLine > nextLine) {
+                ranges.push({ startLine: nextLine, endLine: child.startLine - 1 });
             }
-        } else if (grammarName === 'java' || grammarName === 'c_sharp') {
-            // Java and C# use 'name' field
-            return node.childForFieldName('name');
-        } else if (grammarName === 'rust') {
-            // Rust uses 'name' field
-            return node.childForFieldName('name');
-        } else if (grammarName === 'go') {
-            // Go uses 'name' field
-            return node.childForFieldName('name');
+            nextLine = Math.max(nextLine, child.endLine + 1);
         }
 
-        // Fallback: search for first identifier
-        for (const child of node.children) {
-            if (child.type === 'identifier') {
-                return child;
-            }
+        if (nextLine <= func.endLine) {
+            ranges.push({ startLine: nextLine, endLine: func.endLine });
         }
 
-        return null;
+        return ranges;
     }
 }
@@ -0,0 +1,98 @@
+import { parentPort } from 'worker_threads';
+import { CppParser } from './parser';
+import { ParseResult, WorkerRequest, WorkerResponse } from './backgroundParser';
+
+// Worker thread entry point used by BackgroundParser
+
+const parser = new CppParser();
+let initialized: Promise<void> | null = null;
+
+// Requests are processed one at a time, in the order they arrive,
+// so edits and parses of a document are applied to its tree in sequence
+let queue: Promise<void> = Promise.resolve();
+
+// Latest parse request per document; older parses still queued are cancelled
+const latestParse: Map<string, number> = new Map();
+
+function ensureInitialized(): Promise<void> {
+    if (!initialized) {
+        initialized = parser.initialize();
+    }
+    return initialized;
+}
+
+async function handleRequest(request: WorkerRequest): Promise<ParseResult | undefined> {
+    await ensureInitialized();
+
+    switch (request.type) {
+        case 'initialize':
+            return undefined;
+
+        case 'edit':
+            parser.applyEdit(request.documentKey, request.edit);
+            return undefined;
+
+        case 'configure':
+            if (request.queryDirectories) {
+                parser.setQueryDirectories(request.queryDirectories);
+            }
+            if (request.customGrammars) {
+                parser.setCustomGrammars(request.customGrammars);
+            }
+            return undefined;
+
+        case 'release':
+            parser.releaseDocument(request.documentKey);
+            return undefined;
+
+        case 'parse': {
+            if (latestParse.get(request.documentKey) !== request.id) {
+                return { cancelled: true, supported: true, functions: [] };
+            }
+
+            const supported = await parser.setLanguage(request.languageId);
+            if (!supported) {
+                parser.releaseDocument(request.documentKey);
+                return {
+                    cancelled: false,
+                    supported: false,
+                    loadError: parser.getLoadError(request.languageId),
+                    functions: []
+                };
+            }
+
+            const functions = parser.parseFunctions(request.sourceCode, request.documentKey);
+            return { cancelled: false, supported: true, functions };
+        }
+    }
+}
+
+parentPort!.on('message', (request: WorkerRequest) => {
+    // Track the latest parse as requests arrive rather than when they run, so a
+    // release cancels the parses queued before it but not one posted after it
+    if (request.type === 'parse') {
+        latestParse.set(request.documentKey, request.id);
+    } else if (request.type === 'release') {
+        latestParse.delete(request.documentKey);
+    }
+
+    queue = queue.then(async () => {
+        let response: WorkerResponse | undefined;
+        try {
+            const result = await handleRequest(request);
+            if ('id' in request) {
+                response = { id: request.id, result };
+            }
+        } catch (error) {
+            if ('id' in request) {
+                response = { id: request.id, error: String(error) };
+            } else {
+                console.error('Parser worker request failed:', error);
+            }
+        }
+
+        if (response) {
+            parentPort!.postMessage(response);
+        }
+    });
+});
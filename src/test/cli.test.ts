@@ -0,0 +1,78 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const CLI = path.join(__dirname, '..', 'cli.js');
+
+const SOURCE = [
+    'function load(path, options) {',
+    '    if (options && path) {',
+    '        return path;',
+    '    }',
+    '    return null;',
+    '}',
+    '',
+    'function id(value) {',
+    '    return value;',
+    '}',
+    ''
+].join('\n');
+
+describe('command line', () => {
+    let directory: string;
+    let file: string;
+
+    before(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'function-highlight-'));
+        file = path.join(directory, 'load.js');
+        fs.writeFileSync(file, SOURCE);
+    });
+
+    after(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    const run = (...args: string[]) => spawnSync(process.execPath, [CLI, ...args], { cwd: directory, encoding: 'utf8' });
+
+    it('lists functions and exits with 0 within the limits', () => {
+        const result = run('--format', 'json', '--max-lines', '6', '--max-complexity', '3', '--max-nesting', '1', '--max-parameters', '2', file);
+        assert.strictEqual(result.status, 0, result.stderr);
+        assert.strictEqual(result.stderr, '');
+        const names = JSON.parse(result.stdout).functions.map((func: { name: string }) => func.name);
+        assert.deepStrictEqual(names, ['load', 'id']);
+    });
+
+    it('exits with 1 and reports each exceeded limit on stderr', () => {
+        const result = run('--max-lines', '5', '--max-complexity', '2', '--max-nesting', '0', '--max-parameters', '1', file);
+        assert.strictEqual(result.status, 1);
+        assert.deepStrictEqual(result.stderr.trim().split('\n'), [
+            'load.js:1: load has 6 lines (max 5)',
+            'load.js:1: load has cyclomatic complexity 3 (max 2)',
+            'load.js:1: load has nesting depth 1 (max 0)',
+            'load.js:1: load has 2 parameters (max 1)'
+        ]);
+    });
+
+    it('still writes the report when a limit is exceeded', () => {
+        const result = run('--format', 'csv', '--max-lines', '3', file);
+        assert.strictEqual(result.status, 1);
+        assert.match(result.stdout, /^load,,load\.js,1,1,6,6,#[0-9a-f]{6}$/m);
+        assert.strictEqual(result.stderr, 'load.js:1: load has 6 lines (max 3)\n');
+    });
+
+    it('exits with 2 on invalid arguments', () => {
+        assert.strictEqual(run('--max-lines', 'many', file).status, 2);
+        assert.strictEqual(run('--max-lines').status, 2);
+        assert.strictEqual(run('--unknown', file).status, 2);
+        assert.strictEqual(run().status, 2);
+    });
+
+    it('exits with 2 when a language is not supported', () => {
+        const result = run('--language', 'cobol', file);
+        assert.strictEqual(result.status, 2);
+        assert.match(result.stderr, /language cobol is not supported/);
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { ColorCalculator } from '../colorCalculator';
+import { FunctionInfo } from '../parser';
+import { createFunction } from './helpers';
+
+describe('assignColorIndices', () => {
+    const calculator = new ColorCalculator();
+
+    it('gives a function a different color than its previous sibling with nested functions', () => {
+        const first = createFunction('first', 0, 10);
+        const nested = createFunction('nested', 2, 4, { parent: first });
+        const second = createFunction('second', 12, 20);
+        const functions = [first, nested, second];
+
+        // Try many names for the second function so a hash collision with the first is hit
+        for (let attempt = 0; attempt < 200; attempt++) {
+            second.name = `second${attempt}`;
+            const indices = calculator.assignColorIndices(functions, 'identity', true);
+            assert.notStrictEqual(indices[2], indices[0], `second${attempt} shares the color of first`);
+            assert.notStrictEqual(indices[1], indices[0]);
+        }
+    });
+
+    it('never gives neighbouring siblings or a parent and its child the same color', () => {
+        let seed = 1;
+        const random = () => {
+            seed = (seed * 16807) % 2147483647;
+            return seed / 2147483647;
+        };
+
+        for (let trial = 0; trial < 300; trial++) {
+            const functions: FunctionInfo[] = [];
+            let line = 0;
+            const addFunctions = (parent: FunctionInfo | undefined, count: number) => {
+                for (let i = 0; i < count; i++) {
+                    const func = createFunction(`f${trial}_${functions.length}`, line++, line + 5, { parent });
+                    functions.push(func);
+                    if (func.depth < 2 && random() < 0.4) {
+                        addFunctions(func, 1 + Math.floor(random() * 3));
+                    }
+                }
+            };
+            addFunctions(undefined, 2 + Math.floor(random() * 5));
+
+            const indices = calculator.assignColorIndices(functions, 'identity', true);
+            const indexOf = new Map(functions.map((func, position) => [func, indices[position]]));
+            functions.forEach((func, position) => {
+                const siblings = func.parent ? func.parent.children : functions.filter(other => !other.parent);
+                const previous = siblings[siblings.indexOf(func) - 1];
+                if (previous) {
+                    assert.notStrictEqual(indices[position], indexOf.get(previous));
+                }
+                if (func.parent) {
+                    assert.notStrictEqual(indices[position], indexOf.get(func.parent));
+                }
+            });
+        }
+    });
+
+    it('keeps the list order in position mode', () => {
+        const functions = [createFunction('a', 0, 1), createFunction('b', 2, 3)];
+        assert.deepStrictEqual(calculator.assignColorIndices(functions, 'position', true), [0, 1]);
+    });
+});
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { renderDocument, RenderOptions } from '../documentRenderer';
+import { DEFAULT_GUTTER_OPTIONS } from '../gutterRenderer';
+import { createFunction } from './helpers';
+
+describe('renderDocument', () => {
+    const lines = ['function load() {', '\treturn 1;', '}', '', 'const x = 1;'];
+    const load = createFunction('load', 0, 2);
+    const options: RenderOptions = { title: 'load.js', theme: 'dark', opacity: 0.5, tabSize: 4, gutter: DEFAULT_GUTTER_OPTIONS };
+
+    it('writes one line block per document line with nothing between them', () => {
+        const html = renderDocument(lines, [load], ['#ff0000'], 'html', options);
+        const code = /<pre>([\s\S]*)<\/pre>/.exec(html)![1];
+        const blocks = code.match(/<div class="line"[^>]*>.*?<\/div>/g)!;
+        assert.strictEqual(blocks.length, lines.length);
+        assert.strictEqual(blocks.join(''), code);
+    });
+
+    it('draws bands on the function lines and expands tabs', () => {
+        const html = renderDocument(lines, [load], ['#ff0000'], 'html', options);
+        const blocks = /<pre>([\s\S]*)<\/pre>/.exec(html)![1].match(/<div class="line"[^>]*>.*?<\/div>/g)!;
+        assert.deepStrictEqual(blocks.map(block => block.includes('background-color')), [true, true, true, false, false]);
+        assert.ok(blocks[1].endsWith('    return 1;</div>'));
+    });
+});
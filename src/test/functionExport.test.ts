@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { EXPORT_FORMAT_NAME, EXPORT_FORMAT_VERSION, ExportedFile, formatFunctionReport } from '../functionExport';
+import { createFunction } from './helpers';
+
+describe('formatFunctionReport', () => {
+    const parse = createFunction('parse', 9, 29, { className: 'Parser' });
+    const visit = createFunction('visit', 12, 15, { parent: parse });
+    const files: ExportedFile[] = [
+        { path: 'src/parser.ts', functions: [parse, visit], colors: ['#aabbcc', '#ddeeff'] }
+    ];
+
+    it('writes JSON with the format name, version and 1-based lines', () => {
+        const report = JSON.parse(formatFunctionReport(files, 'json'));
+        assert.strictEqual(report.format, EXPORT_FORMAT_NAME);
+        assert.strictEqual(report.version, EXPORT_FORMAT_VERSION);
+        assert.deepStrictEqual(report.functions, [
+            { name: 'parse', container: 'Parser', file: 'src/parser.ts', declarationLine: 10, startLine: 10, endLine: 30, lineCount: 21, color: '#aabbcc' },
+            { name: 'visit', container: 'Parser::parse', file: 'src/parser.ts', declarationLine: 13, startLine: 13, endLine: 16, lineCount: 4, color: '#ddeeff' }
+        ]);
+    });
+
+    it('writes CSV with a version line and a header', () => {
+        const lines = formatFunctionReport(files, 'csv').split('\n');
+        assert.deepStrictEqual(lines, [
+            `# ${EXPORT_FORMAT_NAME} v${EXPORT_FORMAT_VERSION}`,
+            'name,container,file,declarationLine,startLine,endLine,lineCount,color',
+            'parse,Parser,src/parser.ts,10,10,30,21,#aabbcc',
+            'visit,Parser::parse,src/parser.ts,13,13,16,4,#ddeeff',
+            ''
+        ]);
+    });
+
+    it('quotes CSV values with commas, quotes and line breaks', () => {
+        const operator = createFunction('operator,', 0, 1, { className: 'say "hi"' });
+        const multiline = createFunction('a\nb', 2, 3);
+        const csv = formatFunctionReport([{ path: 'a, b.cpp', functions: [operator, multiline], colors: ['#000000', '#111111'] }], 'csv');
+        assert.ok(csv.includes('"operator,","say ""hi""","a, b.cpp",1,1,2,2,#000000\n'));
+        assert.ok(csv.includes('"a\nb",,"a, b.cpp",3,3,4,2,#111111\n'));
+    });
+
+    it('writes a Markdown table with escaped pipes', () => {
+        const pipe = createFunction('operator|', 0, 4);
+        const lines = formatFunctionReport([{ path: 'ops.cpp', functions: [pipe], colors: ['#123456'] }], 'markdown').split('\n');
+        assert.deepStrictEqual(lines, [
+            `<!-- ${EXPORT_FORMAT_NAME} v${EXPORT_FORMAT_VERSION} -->`,
+            '| name | container | file | declarationLine | startLine | endLine | lineCount | color |',
+            '| --- | --- | --- | ---: | ---: | ---: | ---: | --- |',
+            '| operator\\| |  | ops.cpp | 1 | 1 | 5 | 5 | #123456 |',
+            ''
+        ]);
+    });
+});
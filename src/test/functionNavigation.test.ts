@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { findNextFunction, findNextFunctionWithColor, findPreviousFunction, getSelectionSpans } from '../functionNavigation';
+import { createFunction } from './helpers';
+
+describe('functionNavigation', () => {
+    // Listed parents-first, as the parser reports them
+    const first = createFunction('first', 0, 20, { className: 'Parser' });
+    const nested = createFunction('nested', 5, 10, { parent: first });
+    const second = createFunction('second', 25, 30, { className: 'Parser' });
+    const third = createFunction('third', 40, 45);
+    const functions = [first, nested, second, third];
+
+    it('finds the next function by declaration line, stepping into nested functions', () => {
+        assert.strictEqual(findNextFunction(functions, 0), nested);
+        assert.strictEqual(findNextFunction(functions, 5), second);
+        assert.strictEqual(findNextFunction(functions, 30), third);
+        assert.strictEqual(findNextFunction(functions, 40), undefined);
+    });
+
+    it('finds the previous function by declaration line', () => {
+        assert.strictEqual(findPreviousFunction(functions, 40), second);
+        assert.strictEqual(findPreviousFunction(functions, 25), nested);
+        assert.strictEqual(findPreviousFunction(functions, 6), nested);
+        assert.strictEqual(findPreviousFunction(functions, 0), undefined);
+    });
+
+    it('finds the next function with the same color, wrapping around', () => {
+        const colors = ['#111111', '#222222', '#111111', '#111111'];
+        assert.strictEqual(findNextFunctionWithColor(functions, colors, first), second);
+        assert.strictEqual(findNextFunctionWithColor(functions, colors, third), first);
+        assert.strictEqual(findNextFunctionWithColor(functions, colors, nested), undefined);
+    });
+
+    it('grows selections from a function to its parent and then its class', () => {
+        assert.deepStrictEqual(getSelectionSpans(functions), [
+            { startLine: 5, endLine: 10 },
+            { startLine: 25, endLine: 30 },
+            { startLine: 40, endLine: 45 },
+            { startLine: 0, endLine: 20 },
+            { startLine: 0, endLine: 30 }
+        ]);
+    });
+
+    it('puts a class after a function of the same size', () => {
+        const only = createFunction('only', 3, 8, { className: 'Single' });
+        assert.deepStrictEqual(getSelectionSpans([only]), [
+            { startLine: 3, endLine: 8 },
+            { startLine: 3, endLine: 8 }
+        ]);
+    });
+});
@@ -0,0 +1,188 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { GitHistory } from '../gitHistory';
+import { createFunction } from './helpers';
+
+const MERGE = '1'.repeat(40);
+const SIDE = '2'.repeat(40);
+const REMOVAL = '3'.repeat(40);
+const EDIT = '4'.repeat(40);
+const ROOT = '5'.repeat(40);
+const UNCOMMITTED = '0'.repeat(40);
+
+// f.js as committed at the merge
+const COMMITTED = [
+    '// header',
+    'function a() {',
+    '    return 1;',
+    '}',
+    '',
+    'function b() {',
+    '    return 2;',
+    '}',
+    ''
+].join('\n');
+
+// git log -m --first-parent -p -U0 --format=%x00%H: a merge that adds the header
+// line and moves both functions down, a commit that removes a line from b, a commit
+// that edits a line of a, and the commit that added the file
+const LOG = [
+    `\0${MERGE}`,
+    '',
+    'diff --git a/f.js b/f.js',
+    '--- a/f.js',
+    '+++ b/f.js',
+    '@@ -0,0 +1 @@',
+    '+// header',
+    `\0${REMOVAL}`,
+    '',
+    'diff --git a/f.js b/f.js',
+    '--- a/f.js',
+    '+++ b/f.js',
+    '@@ -6 +5,0 @@ function b() {',
+    '-    log();',
+    `\0${EDIT}`,
+    '',
+    'diff --git a/f.js b/f.js',
+    '--- a/f.js',
+    '+++ b/f.js',
+    '@@ -2 +2 @@ function a() {',
+    '-    return 0;',
+    '+    return 1;',
+    `\0${ROOT}`,
+    '',
+    'diff --git a/f.js b/f.js',
+    'new file mode 100644',
+    '--- /dev/null',
+    '+++ b/f.js',
+    '@@ -0,0 +1,8 @@',
+    '+function a() {',
+    '+    return 0;',
+    '+}',
+    '+',
+    '+function b() {',
+    '+    log();',
+    '+    return 2;',
+    '+}',
+    ''
+].join('\n');
+
+// The editor's text: the committed file with an uncommitted comment in a
+const CONTENTS = [
+    '// header',
+    'function a() {',
+    '    return 1;',
+    '    // note',
+    '}',
+    '',
+    'function b() {',
+    '    return 2;',
+    '}',
+    ''
+].join('\n');
+
+// git blame --porcelain of the editor's text, with the fields GitHistory reads
+const BLAME_COMMITS: { [commit: string]: { author: string, time: number } } = {
+    [SIDE]: { author: 'Side', time: 3000 },
+    [EDIT]: { author: 'Edit', time: 2000 },
+    [ROOT]: { author: 'Root', time: 1000 },
+    [UNCOMMITTED]: { author: 'Not Committed Yet', time: 5000 }
+};
+const BLAME_LINES = [SIDE, ROOT, EDIT, UNCOMMITTED, ROOT, ROOT, ROOT, ROOT, ROOT, ROOT];
+const BLAME = BLAME_LINES.map((commit, index) => [
+    `${commit} ${index + 1} ${index + 1} 1`,
+    `author ${BLAME_COMMITS[commit].author}`,
+    `author-time ${BLAME_COMMITS[commit].time}`,
+    'filename f.js',
+    `\t${CONTENTS.split('\n')[index]}`
+].join('\n')).join('\n') + '\n';
+
+// A GitHistory that answers git commands with the output above
+function createHistory(): { history: GitHistory, commands: string[] } {
+    const history = new GitHistory();
+    const commands: string[] = [];
+    history['git'] = async (_cwd: string, args: string[]) => {
+        commands.push(args[0]);
+        switch (args[0]) {
+            case 'rev-parse': return `${MERGE}\n`;
+            case 'show': return COMMITTED;
+            case 'log': return LOG;
+            case 'blame': return BLAME;
+            default: throw new Error(`Unexpected git ${args[0]}`);
+        }
+    };
+    return { history, commands };
+}
+
+describe('GitHistory', () => {
+    // 0-based lines of the editor's text
+    const a = createFunction('a', 1, 4);
+    const b = createFunction('b', 6, 8);
+
+    it('follows each committed line back through moves, edits and removals', () => {
+        const { history } = createHistory();
+        const { commits, changedAfter } = history['parseLineCommits'](LOG, 8);
+
+        // Commit indices count from the newest: merge 0, removal 1, edit 2, root 3
+        assert.deepStrictEqual(commits, [[0], [3], [2, 3], [3], [3], [3], [3], [3]]);
+        // The removed line of b lies between its first two lines
+        assert.deepStrictEqual(changedAfter[5], [{ commit: 1, next: 6 }, { commit: 3, next: 6 }]);
+        assert.deepStrictEqual(changedAfter[0], []);
+        assert.deepStrictEqual(changedAfter[7], []);
+    });
+
+    it('reports the newest change and uncommitted lines of each function', async () => {
+        const { history } = createHistory();
+        const [historyOfA, historyOfB] = (await history.getFunctionHistory('/repo/f.js', [a, b], false, CONTENTS))!;
+
+        assert.deepStrictEqual(historyOfA, { commit: EDIT, author: 'Edit', lastChanged: historyOfA!.lastChanged, uncommitted: true });
+        assert.ok(historyOfA!.lastChanged > 2000000);
+        assert.deepStrictEqual(historyOfB, { commit: ROOT, author: 'Root', lastChanged: 1000000, uncommitted: false });
+    });
+
+    it('counts the commits of each function like git log -L once churn is loaded', async () => {
+        const { history } = createHistory();
+        const [before] = (await history.getFunctionHistory('/repo/f.js', [a], true, CONTENTS))!;
+        assert.strictEqual(before!.commits, undefined);
+
+        assert.strictEqual(await history.loadChurn('/repo/f.js'), true);
+        assert.strictEqual(await history.loadChurn('/repo/f.js'), false);
+
+        // The uncommitted line of a is not in the committed file and is skipped
+        const counts = (await history.getFunctionHistory('/repo/f.js', [a, b], true, CONTENTS))!.map(entry => entry!.commits);
+        assert.deepStrictEqual(counts, [2, 2]);
+    });
+
+    it('matches only lines blamed on a commit to the committed file, in order', () => {
+        const { history } = createHistory();
+        const fileHistory = {
+            version: '',
+            lines: BLAME_LINES.map(commit => ({ commit, author: '', time: 0 })),
+            contents: CONTENTS.split('\n')
+        };
+        const churn = { head: MERGE, lines: COMMITTED.split('\n'), commits: [], changedAfter: [] };
+        assert.deepStrictEqual(history['getCommittedLines'](fileHistory, churn), [0, 1, 2, undefined, 3, 4, 5, 6, 7, 8]);
+    });
+
+    it('blames each version of a file once, even when asked again while git runs', async () => {
+        const { history, commands } = createHistory();
+        await Promise.all([
+            history.getFunctionHistory('/repo/f.js', [a], false, CONTENTS),
+            history.getFunctionHistory('/repo/f.js', [a], false, CONTENTS)
+        ]);
+        await history.getFunctionHistory('/repo/f.js', [a], false, CONTENTS);
+        assert.strictEqual(commands.filter(command => command === 'blame').length, 1);
+    });
+
+    it('does not blame an untracked file again until HEAD moves', async () => {
+        const { history, commands } = createHistory();
+        const git = history['git'];
+        history['git'] = (cwd: string, args: string[], input?: string) => args[0] === 'blame'
+            ? git(cwd, args, input).then(() => Promise.reject(new Error('no such path in HEAD')))
+            : git(cwd, args, input);
+
+        assert.strictEqual(await history.getFunctionHistory('/repo/new.js', [a], false, CONTENTS), undefined);
+        assert.strictEqual(await history.getFunctionHistory('/repo/new.js', [a], false, CONTENTS), undefined);
+        assert.strictEqual(commands.filter(command => command === 'blame').length, 1);
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { DEFAULT_GUTTER_OPTIONS, getGutterCellKey, getGutterCells, renderGutterIcon, toSvgFile } from '../gutterRenderer';
+import { createFunction } from './helpers';
+
+describe('gutterRenderer', () => {
+    const outer = createFunction('outer', 1, 6);
+    const inner = createFunction('inner', 3, 4, { parent: outer });
+    const single = createFunction('single', 8, 8);
+    const functions = [outer, inner, single];
+    const colors = ['#ff0000', '#00ff00', '#0000ff'];
+
+    it('marks the start, body and end of the innermost function with rails for its parents', () => {
+        const cells = getGutterCells(10, functions, colors, DEFAULT_GUTTER_OPTIONS);
+        const parts = cells.map(cell => cell && cell.segments.map(segment => `${segment.color}:${segment.part}`).join(' '));
+        assert.deepStrictEqual(parts, [
+            undefined,
+            '#ff0000:start',
+            '#ff0000:body',
+            '#ff0000:body #00ff00:start',
+            '#ff0000:body #00ff00:end',
+            '#ff0000:body',
+            '#ff0000:end',
+            undefined,
+            '#0000ff:single',
+            undefined
+        ]);
+    });
+
+    it('leaves out the parent rails when they are turned off', () => {
+        const cells = getGutterCells(10, functions, colors, { ...DEFAULT_GUTTER_OPTIONS, nestingRails: false });
+        assert.deepStrictEqual(cells[3]!.segments.map(segment => segment.color), ['#00ff00']);
+    });
+
+    it('draws nothing in the none style', () => {
+        const cells = getGutterCells(10, functions, colors, { ...DEFAULT_GUTTER_OPTIONS, style: 'none' });
+        assert.ok(cells.every(cell => cell === undefined));
+    });
+
+    it('shares icons between equal cells only', () => {
+        const cells = getGutterCells(10, functions, colors, DEFAULT_GUTTER_OPTIONS);
+        assert.strictEqual(getGutterCellKey(cells[2]!, DEFAULT_GUTTER_OPTIONS), getGutterCellKey(cells[5]!, DEFAULT_GUTTER_OPTIONS));
+        assert.notStrictEqual(getGutterCellKey(cells[1]!, DEFAULT_GUTTER_OPTIONS), getGutterCellKey(cells[2]!, DEFAULT_GUTTER_OPTIONS));
+    });
+
+    it('renders an SVG as wide as its rails', () => {
+        const cells = getGutterCells(10, functions, colors, DEFAULT_GUTTER_OPTIONS);
+        const nestedIcon = renderGutterIcon(cells[3]!, DEFAULT_GUTTER_OPTIONS);
+        const topLevelIcon = renderGutterIcon(cells[1]!, DEFAULT_GUTTER_OPTIONS);
+        assert.ok(nestedIcon.width >= topLevelIcon.width);
+        assert.match(toSvgFile(nestedIcon), new RegExp(`^<svg [^>]*width="${nestedIcon.width}"[^>]*>.*#00ff00.*</svg>$`));
+    });
+});
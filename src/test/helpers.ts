@@ -0,0 +1,26 @@
+import { FunctionInfo } from '../parser';
+
+/**
+ * Build a function as the parser reports it, linking it to its parent
+ */
+export function createFunction(
+    name: string,
+    declarationLine: number,
+    endLine: number,
+    options: { parent?: FunctionInfo; className?: string } = {}
+): FunctionInfo {
+    const func: FunctionInfo = {
+        name,
+        startLine: declarationLine,
+        endLine,
+        lineCount: endLine - declarationLine + 1,
+        declarationLine,
+        className: options.className ?? options.parent?.className,
+        parent: options.parent,
+        children: [],
+        depth: options.parent ? options.parent.depth + 1 : 0,
+        metrics: { cyclomaticComplexity: 1, maxNesting: 0, parameterCount: 0, returnCount: 0, commentRatio: 0 }
+    };
+    options.parent?.children.push(func);
+    return func;
+}
@@ -0,0 +1,158 @@
+import { before, describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { CppParser, FunctionInfo, TextEdit } from '../parser';
+
+// The fields the function queries decide, with 0-based lines
+function describeFunctions(functions: FunctionInfo[]) {
+    return functions.map(func => ({
+        name: func.name,
+        className: func.className,
+        parent: func.parent?.name,
+        declarationLine: func.declarationLine,
+        endLine: func.endLine
+    }));
+}
+
+// The row and column of an index, counted the way document positions are
+function toPosition(text: string, index: number) {
+    const lines = text.slice(0, index).split('\n');
+    return { row: lines.length - 1, column: lines[lines.length - 1].length };
+}
+
+// Replace the first occurrence of a piece of text, returning the new text and the edit
+function replace(text: string, search: string, replacement: string): { text: string, edit: TextEdit } {
+    const startIndex = text.indexOf(search);
+    assert.ok(startIndex >= 0, `${JSON.stringify(search)} not found`);
+    const newText = text.slice(0, startIndex) + replacement + text.slice(startIndex + search.length);
+    return {
+        text: newText,
+        edit: {
+            startIndex,
+            oldEndIndex: startIndex + search.length,
+            newEndIndex: startIndex + replacement.length,
+            startPosition: toPosition(text, startIndex),
+            oldEndPosition: toPosition(text, startIndex + search.length),
+            newEndPosition: toPosition(newText, startIndex + replacement.length)
+        }
+    };
+}
+
+describe('function queries', () => {
+    const parser = new CppParser();
+
+    before(async () => {
+        await parser.initialize();
+    });
+
+    it('finds JavaScript functions, methods, nested closures and callbacks', async () => {
+        assert.ok(await parser.setLanguage('javascript'));
+        const functions = parser.parseFunctions([
+            'class Parser {',
+            '    parse(text) {',
+            '        const visit = (node) => {',
+            '            return node;',
+            '        };',
+            '        return visit(text);',
+            '    }',
+            '}',
+            '',
+            'function load(path, options) {',
+            '    if (options && path) {',
+            '        return path;',
+            '    }',
+            '    return null;',
+            '}',
+            '',
+            'items.forEach(function (item) {',
+            '    console.log(item);',
+            '});'
+        ].join('\n'));
+
+        assert.deepStrictEqual(describeFunctions(functions), [
+            { name: 'parse', className: 'Parser', parent: undefined, declarationLine: 1, endLine: 6 },
+            { name: 'visit', className: 'Parser', parent: 'parse', declarationLine: 2, endLine: 4 },
+            { name: 'load', className: undefined, parent: undefined, declarationLine: 9, endLine: 14 },
+            { name: 'forEach', className: undefined, parent: undefined, declarationLine: 16, endLine: 18 }
+        ]);
+        assert.deepStrictEqual(functions[2].metrics, {
+            cyclomaticComplexity: 3,
+            maxNesting: 1,
+            parameterCount: 2,
+            returnCount: 2,
+            commentRatio: 0
+        });
+    });
+
+    it('spans every guard of a Haskell function and lists each equation', async () => {
+        assert.ok(await parser.setLanguage('haskell'));
+        const functions = parser.parseFunctions([
+            'module Main where',
+            '',
+            'classify :: Int -> Int',
+            'classify x',
+            '  | x > 10 = 1',
+            '  | x > 5 = 2',
+            '  | otherwise = 3',
+            '',
+            'factorial 0 = 1',
+            'factorial n = n * factorial (n - 1)'
+        ].join('\n'));
+
+        assert.deepStrictEqual(describeFunctions(functions), [
+            { name: 'classify', className: undefined, parent: undefined, declarationLine: 3, endLine: 6 },
+            { name: 'factorial', className: undefined, parent: undefined, declarationLine: 8, endLine: 8 },
+            { name: 'factorial', className: undefined, parent: undefined, declarationLine: 9, endLine: 9 }
+        ]);
+        // Guards other than otherwise are branches
+        assert.strictEqual(functions[0].metrics.cyclomaticComplexity, 3);
+    });
+});
+
+describe('incremental parsing', () => {
+    const parser = new CppParser();
+
+    before(async () => {
+        await parser.initialize();
+        assert.ok(await parser.setLanguage('javascript'));
+    });
+
+    it('gives the same functions as a full parse after each edit', () => {
+        const documentKey = 'file:///edits.js';
+        let text = [
+            'class Parser {',
+            '    parse(text) {',
+            '        const visit = (node) => {',
+            '            return node;',
+            '        };',
+            '        return visit(text);',
+            '    }',
+            '}',
+            '',
+            'function load(path, options) {',
+            '    if (options) {',
+            '        return path;',
+            '    }',
+            '    return null;',
+            '}',
+            '',
+            'function save(path) {',
+            '    return path;',
+            '}'
+        ].join('\n');
+        parser.parseFunctions(text, documentKey);
+
+        const edits: [string, string, string][] = [
+            ['inserting a function', '\nfunction save', '\nfunction check(a, b) {\n    return a && b;\n}\n\nfunction save'],
+            ['deleting lines', '    if (options) {\n        return path;\n    }\n', ''],
+            ['an edit spanning two functions', 'null;\n}\n\nfunction check(a, b) {\n    return a', 'a'],
+            ['an edit inside a nested function', '            return node;', '            if (node) {\n                return node;\n            }\n            return null;']
+        ];
+        for (const [description, search, replacement] of edits) {
+            const change = replace(text, search, replacement);
+            text = change.text;
+            parser.applyEdit(documentKey, change.edit);
+            assert.deepStrictEqual(parser.parseFunctions(text, documentKey), parser.parseFunctions(text), description);
+        }
+        parser.releaseDocument(documentKey);
+    });
+});